@@ -4,36 +4,111 @@
  * Tracks coding activity with WakaTime when using pi coding agent.
  * Uses the wakatime-cli for heartbeats, which handles rate limiting,
  * offline queueing, language detection, and API communication.
+ * Heartbeats are deduplicated and sent in batches via --extra-heartbeats,
+ * or posted directly to a WakaTime-compatible API with the "http" transport.
+ * Undeliverable heartbeats are kept in ~/.pi/agent/wakatime-queue.jsonl and
+ * replayed once the CLI or API key becomes available.
  *
  * Tracks:
  * - Files read/written/edited by the agent
+ * - Files modified by bash commands, with test/build/debug categories
  * - Session activity (turns, thinking time)
- * - Project detection from cwd
- * - AI line changes for write/edit operations
+ * - Project and branch detection per file (git root, .wakatime-project, workspaces)
+ * - AI line changes for write/edit operations (line diffs against previous contents)
+ * - Active model (provider/id) with every heartbeat, plus local per-model time totals
+ *
+ * Privacy: include/exclude globs, hidden file/project names, and
+ * per-directory opt-out via a .wakatime-ignore file.
  *
  * Requirements:
  * - wakatime-cli installed (~/.wakatime/wakatime-cli)
  * - WakaTime API key configured (~/.wakatime.cfg)
  *
- * Configuration via ~/.pi/agent/settings.json:
+ * Configuration via ~/.pi/agent/settings.json, overridable per repository with
+ * .pi/settings.json or .wakatime.json and by PI_WAKATIME_* environment variables:
  * {
  *   "wakatime": {
  *     "enabled": true,
  *     "trackFiles": true,
+ *     "trackBash": true,
  *     "trackSessions": false,
  *     "category": "ai coding",
- *     "cliPath": "~/.wakatime/wakatime-cli"
+ *     "cliPath": "~/.wakatime/wakatime-cli",
+ *     "cliVersion": "latest",
+ *     "workspaceProjects": false,
+ *     "include": [],
+ *     "exclude": [".env", "secrets/**"],
+ *     "hideFileNames": false,
+ *     "hideProjectNames": false,
+ *     "modelEncoding": "plugin",
+ *     "transport": "cli"
  *   }
  * }
  */
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { execFile, execFileSync } from "node:child_process";
+import type { ExtensionAPI, ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import * as os from "node:os";
-import * as https from "node:https";
-import { createWriteStream } from "node:fs";
+import { classifyCommand, diffSnapshots, extractFileArgs, takeSnapshot, type MtimeSnapshot } from "./src/bash";
+import { diffEdits, diffLines, type LineDiff, type TextEdit } from "./src/diff";
+import { formatDoctorReport, runDoctor } from "./src/doctor";
+import { expandHome } from "./src/files";
+import {
+	CONFIG_SCHEMA,
+	DEFAULT_CONFIG,
+	formatConfigProblem,
+	envVarName,
+	getGlobalSettingsPath,
+	getProjectSettingsPath,
+	loadLayeredConfig,
+	parseConfigString,
+	resolveConfigKey,
+	validateConfigValue,
+	writeSettingsValue,
+	type ConfigProblem,
+	PROJECT_ENABLE_ONLY_KEYS,
+	PROJECT_FORBIDDEN_KEYS,
+	type ConfigSources,
+	type SettingsScope,
+	type WakaTimeConfig,
+} from "./src/config";
+import { clearGitCache } from "./src/git";
+import { createModelTimeTracker, formatDuration } from "./src/model-stats";
+import {
+	directApiKey,
+	getWakaTimeConfigPath,
+	isApiKeyConfigured,
+	isCustomServer,
+	isValidApiKey,
+	isValidApiUrl,
+	readWakaTimeSettings,
+	writeWakaTimeSettings,
+} from "./src/ini";
+import { installWakaTimeCli } from "./src/installer";
+import { detectLanguage } from "./src/language";
+import { createLogger, formatLogEntry } from "./src/log";
+import { createOfflineQueue } from "./src/offline";
+import { createPrivacyFilter, obfuscateFileName, obfuscateProjectName } from "./src/privacy";
+import { createHeartbeatQueue, type Heartbeat } from "./src/queue";
+import {
+	checkServer,
+	createCliTransport,
+	createHttpTransport,
+	DEFAULT_API_URL,
+	type HeartbeatTransport,
+	type TransportTarget,
+} from "./src/transport";
+import { activateProfile, createProfileSelector, type ActiveProfile } from "./src/profiles";
+import { createProjectResolver, type ProjectResolver } from "./src/project";
+import { createUpdateChecker, type CliVersionStatus } from "./src/updates";
+import { createActivityTracker } from "./src/activity";
+import { createBudgetMonitor, type BudgetAlert } from "./src/budgets";
+import { aggregateLedger, createLedger, parseDateRange, STATS_DIMENSIONS, toCsv } from "./src/ledger";
+import { createSessionRecorder, formatReport, writeReport, type ReportFormat } from "./src/report";
+import { createStatusBar } from "./src/status-bar";
+import { readVaultKey, storeInKeyring } from "./src/vault";
+import { runSetupWizard } from "./src/wizard";
 
 // Extension version
 const EXTENSION_VERSION = "0.1.3";
@@ -64,14 +139,6 @@ function getPiVersion(): string {
 
 
 
-interface WakaTimeConfig {
-	enabled: boolean;
-	trackFiles: boolean;
-	trackSessions: boolean;
-	category: string;
-	cliPath: string;
-}
-
 interface HeartbeatOptions {
 	entity: string;
 	entityType?: "file" | "app" | "domain";
@@ -81,447 +148,548 @@ interface HeartbeatOptions {
 	isWrite?: boolean;
 	aiLineChanges?: number;
 	plugin?: string;
+	model?: string;
 }
 
-// Platform and architecture detection for wakatime-cli download
-function getPlatformInfo(): { platform: string; arch: string } | null {
-	const platform = os.platform();
-	const arch = os.arch();
-
-	// Map Node.js platform to wakatime-cli naming
-	let wkPlatform: string;
-	switch (platform) {
-		case "linux":
-			wkPlatform = "linux";
-			break;
-		case "darwin":
-			wkPlatform = "darwin";
-			break;
-		case "win32":
-			wkPlatform = "windows";
-			break;
-		case "freebsd":
-			wkPlatform = "freebsd";
-			break;
-		case "openbsd":
-			wkPlatform = "openbsd";
-			break;
-		case "netbsd":
-			wkPlatform = "netbsd";
-			break;
-		default:
-			return null;
-	}
-
-	// Map Node.js arch to wakatime-cli naming
-	let wkArch: string;
-	switch (arch) {
-		case "x64":
-			wkArch = "amd64";
-			break;
-		case "arm64":
-			wkArch = "arm64";
-			break;
-		case "ia32":
-			wkArch = "386";
-			break;
-		case "arm":
-			wkArch = "arm";
-			break;
-		default:
-			return null;
-	}
-
-	return { platform: wkPlatform, arch: wkArch };
+// Files larger than this are not snapshotted for line diffs
+const MAX_DIFF_FILE_SIZE = 2 * 1024 * 1024;
+
+// Save the API key, or the vault command that prints it, and optionally the server URL
+// to ~/.wakatime.cfg or a profile's config file. Only one of api_key and api_key_vault_cmd
+// is kept, as api_key wins.
+function saveApiKey(key: string | { vaultCmd: string }, apiUrl?: string, configFile?: string): boolean {
+	try {
+		writeWakaTimeSettings(
+			{
+				api_key: typeof key === "string" ? key : undefined,
+				api_key_vault_cmd: typeof key === "string" ? undefined : key.vaultCmd,
+				...(apiUrl ? { api_url: apiUrl } : {}),
+			},
+			configFile
+		);
+		return true;
+	} catch {
+		return false;
+	}
 }
 
-// Download a file from URL, following redirects
-function downloadFile(url: string, destPath: string): Promise<void> {
-	return new Promise((resolve, reject) => {
-		const file = createWriteStream(destPath);
-
-		const request = (url: string) => {
-			https
-				.get(url, (response) => {
-					// Handle redirects
-					if (response.statusCode === 301 || response.statusCode === 302) {
-						const redirectUrl = response.headers.location;
-						if (redirectUrl) {
-							file.close();
-							fs.unlinkSync(destPath);
-							request(redirectUrl);
-							return;
-						}
-					}
+export default function (pi: ExtensionAPI) {
+	let config: WakaTimeConfig = { ...DEFAULT_CONFIG };
+	let configSources: ConfigSources | undefined;
+	let projectSettingsPaths: string[] = [];
+	let configProblems: ConfigProblem[] = [];
+	// Values changed with /wakatime-config or /wakatime-toggle for this session only
+	const sessionValues: Partial<WakaTimeConfig> = {};
+	let currentModel: string | undefined;
+	let currentProject: string | undefined;
+	let currentBranch: string | undefined;
+	let cliAvailable = false;
+	// API keys printed by api_key_vault_cmd, per config file
+	const vaultApiKeys = new Map<string, string>();
+	let projectResolver: ProjectResolver | undefined;
+	// Profile selected for the session's directory
+	let activeProfile: ActiveProfile | undefined;
+	const profileSelector = createProfileSelector(() => ({ profiles: config.profiles, profile: config.profile }));
+	const bashSnapshots = new Map<string, MtimeSnapshot>();
+	// Previous file contents per write/edit tool call (null if the file didn't exist)
+	const previousContents = new Map<string, string | null>();
+	// Lines added/removed per file this session
+	const lineStats = new Map<string, LineDiff>();
+	const privacyFilter = createPrivacyFilter(() => config);
+	// DEBUG=1 still turns on debug logging, as it used to print diagnostics
+	const logPath = path.join(os.homedir(), ".pi", "agent", "wakatime.log");
+	const logger = createLogger(logPath, () =>
+		process.env.DEBUG ? "debug" : config.logLevel
+	);
+	const offlineQueue = createOfflineQueue(path.join(os.homedir(), ".pi", "agent", "wakatime-queue.jsonl"), logger);
+	const modelTracker = createModelTimeTracker(path.join(os.homedir(), ".pi", "agent", "wakatime-models.json"));
+	const updateChecker = createUpdateChecker(path.join(os.homedir(), ".pi", "agent", "wakatime-cli-version.json"));
+	const piVersion = getPiVersion();
 
-					if (response.statusCode !== 200) {
-						file.close();
-						fs.unlinkSync(destPath);
-						reject(new Error(`Failed to download: HTTP ${response.statusCode}`));
-						return;
-					}
+	// Load config from defaults, global and project settings, and environment
+	function loadConfig(ctx: { cwd: string }) {
+		const loaded = loadLayeredConfig(ctx.cwd, sessionValues);
+		config = loaded.config;
+		configSources = loaded.sources;
+		projectSettingsPaths = loaded.projectPaths;
+		configProblems = loaded.problems;
 
-					response.pipe(file);
-					file.on("finish", () => {
-						file.close();
-						resolve();
-					});
-				})
-				.on("error", (err) => {
-					file.close();
-					fs.unlink(destPath, () => {}); // Delete partial file
-					reject(err);
-				});
-		};
+		// Expand ~ in cliPath
+		config.cliPath = expandHome(config.cliPath);
 
-		request(url);
-	});
-}
+		// Check if CLI exists
+		cliAvailable = fs.existsSync(config.cliPath);
 
-// Check if WakaTime API key is configured
-function isApiKeyConfigured(): boolean {
-	const configPath = path.join(os.homedir(), ".wakatime.cfg");
-	if (!fs.existsSync(configPath)) {
-		return false;
+		// Resolve project and branch per entity, starting from cwd
+		clearGitCache();
+		projectResolver = createProjectResolver({
+			fallbackDir: ctx.cwd,
+			workspaceProjects: config.workspaceProjects,
+		});
+		const cwdInfo = projectResolver.resolve(ctx.cwd);
+		currentProject = cwdInfo.project;
+		currentBranch = cwdInfo.branch;
+
+		profileSelector.clear();
+		activeProfile = profileSelector.select(cwdInfo.root, cwdInfo.gitRoot);
 	}
 
-	try {
-		const content = fs.readFileSync(configPath, "utf-8");
-		// Check for api_key in the config (handles both api_key and api_key_vault_cmd)
-		return /^\s*api_key\s*=/m.test(content);
-	} catch {
-		return false;
+	// Config file and server of the active profile, or the defaults
+	function activeTarget(): TransportTarget {
+		return activeProfile ? { configFile: activeProfile.configFile, apiUrl: activeProfile.apiUrl } : {};
 	}
-}
 
-// Save WakaTime API key to config file
-function saveApiKey(apiKey: string): boolean {
-	const configPath = path.join(os.homedir(), ".wakatime.cfg");
+	// Config files whose keys may be needed: ~/.wakatime.cfg and every profile's
+	function profileConfigFiles(): string[] {
+		const files = Object.entries(config.profiles).map(([name, profile]) => activateProfile(name, profile, "").configFile);
+		return [...new Set([getWakaTimeConfigPath(), ...files.filter((file): file is string => !!file)])];
+	}
 
-	try {
-		let content = "";
+	// Install the configured wakatime-cli version, or a specific zip
+	function installCli(
+		notify?: (message: string, type: "info" | "warning" | "error") => void,
+		source?: string,
+		version = config.cliVersion
+	): Promise<boolean> {
+		return installWakaTimeCli({
+			cliPath: config.cliPath,
+			version,
+			mirrorUrl: config.cliMirrorUrl || undefined,
+			source,
+			notify: (message, type) => {
+				const log = type === "error" ? logger.error : type === "warning" ? logger.warn : logger.info;
+				log(message, { cliPath: config.cliPath });
+				notify?.(message, type);
+			},
+		});
+	}
 
-		if (fs.existsSync(configPath)) {
-			content = fs.readFileSync(configPath, "utf-8");
+	// Compare the installed CLI with the pinned or latest release
+	function checkCliVersion(force = false): Promise<CliVersionStatus> {
+		return updateChecker.check({
+			cliPath: config.cliPath,
+			version: config.cliVersion,
+			mirrorUrl: config.cliMirrorUrl || undefined,
+			force,
+		});
+	}
 
-			// Replace existing api_key if present
-			if (/^\s*api_key\s*=/m.test(content)) {
-				content = content.replace(/^\s*api_key\s*=.*/m, `api_key = ${apiKey}`);
-			} else if (/^\[settings\]/m.test(content)) {
-				// Add api_key after [settings] section
-				content = content.replace(/^\[settings\]/m, `[settings]\napi_key = ${apiKey}`);
-			} else {
-				// Add [settings] section with api_key
-				content = `[settings]\napi_key = ${apiKey}\n\n${content}`;
+	// Notify about or install an outdated CLI, depending on cliUpdates
+	async function checkCliUpdates(notify?: (message: string, type: "info" | "warning" | "error") => void) {
+		const status = await checkCliVersion();
+		if (status.error) {
+			logger.warn(status.error);
+		}
+		if (!status.outdated || !status.installed || !status.available) {
+			return;
+		}
+
+		const target = status.pinned ? `pinned version ${status.available}` : status.available;
+		if (config.cliUpdates === "auto") {
+			notify?.(`Updating wakatime-cli ${status.installed} to ${target}...`, "info");
+			if (await installCli(notify, undefined, status.available)) {
+				await checkCliVersion();
 			}
 		} else {
-			// Create new config file
-			content = `[settings]\napi_key = ${apiKey}\n`;
+			notify?.(`wakatime-cli ${status.installed} is outdated (${target} available). Run /wakatime-install to update.`, "info");
 		}
-
-		fs.writeFileSync(configPath, content, { mode: 0o600 });
-		return true;
-	} catch {
-		return false;
 	}
-}
 
-// Validate WakaTime API key format
-function isValidApiKey(key: string): boolean {
-	// WakaTime API keys are either:
-	// - Legacy: UUID format (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
-	// - New: waka_ prefix followed by UUID (waka_xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
-	const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-	const wakaPattern = /^waka_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+	// Resolve a tool path argument to a normalized absolute path
+	function resolveToolPath(filePath: string, cwd: string): string {
+		// Normalize removes trailing slashes and resolves . and ..
+		return path.normalize(path.isAbsolute(filePath) ? filePath : path.resolve(cwd, filePath));
+	}
 
-	return uuidPattern.test(key) || wakaPattern.test(key);
-}
+	// Read a file's contents for diffing, null if missing, undefined if unreadable or too large
+	function readForDiff(absolutePath: string): string | null | undefined {
+		try {
+			const stat = fs.statSync(absolutePath);
+			if (!stat.isFile() || stat.size > MAX_DIFF_FILE_SIZE) {
+				return undefined;
+			}
+			return fs.readFileSync(absolutePath, "utf-8");
+		} catch (error) {
+			return (error as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+		}
+	}
 
-// Install wakatime-cli from GitHub releases
-async function installWakaTimeCli(
-	cliPath: string,
-	notify?: (message: string, type: "info" | "warning" | "error") => void
-): Promise<boolean> {
-	const platformInfo = getPlatformInfo();
-	if (!platformInfo) {
-		notify?.("Unsupported platform for wakatime-cli auto-install", "warning");
-		return false;
+	// Get the edits of an edit tool call (multi-edit array or single oldText/newText)
+	function getEdits(input: Record<string, unknown> | undefined): TextEdit[] {
+		const edits: TextEdit[] = [];
+		const candidates = Array.isArray(input?.edits) ? input.edits : [input];
+		for (const edit of candidates) {
+			if (typeof edit?.oldText === "string" && typeof edit?.newText === "string") {
+				edits.push({ oldText: edit.oldText, newText: edit.newText });
+			}
+		}
+		return edits;
 	}
 
-	const { platform, arch } = platformInfo;
-	const isWindows = platform === "windows";
-	const binaryName = isWindows ? "wakatime-cli.exe" : "wakatime-cli";
-	const zipName = `wakatime-cli-${platform}-${arch}.zip`;
+	// Compute lines added/removed by a write or edit tool call
+	function computeLineDiff(
+		toolName: string,
+		input: Record<string, unknown> | undefined,
+		absolutePath: string,
+		previous: string | null | undefined
+	): LineDiff | undefined {
+		// Prefer a real diff of the file before and after the tool ran
+		if (previous !== undefined) {
+			const current = readForDiff(absolutePath);
+			if (typeof current === "string") {
+				return diffLines(previous ?? "", current);
+			}
+		}
 
-	// Create installation directory
-	const installDir = path.dirname(cliPath);
-	if (!fs.existsSync(installDir)) {
-		fs.mkdirSync(installDir, { recursive: true });
+		// Fall back to the tool input
+		if (toolName === "write") {
+			const content = input?.content;
+			return typeof content === "string" ? diffLines("", content) : undefined;
+		}
+		const edits = getEdits(input);
+		return edits.length > 0 ? diffEdits(edits) : undefined;
 	}
 
-	const zipPath = path.join(installDir, zipName);
+	// Add a file's line changes to the session totals
+	function recordLineStats(absolutePath: string, diff: LineDiff) {
+		const stats = lineStats.get(absolutePath) ?? { added: 0, removed: 0 };
+		stats.added += diff.added;
+		stats.removed += diff.removed;
+		lineStats.set(absolutePath, stats);
+	}
 
-	try {
-		// Get latest release info
-		notify?.("Checking for latest wakatime-cli release...", "info");
-
-		const releaseInfo = await new Promise<{ tag_name: string; assets: { name: string; browser_download_url: string }[] }>(
-			(resolve, reject) => {
-				https
-					.get(
-						"https://api.github.com/repos/wakatime/wakatime-cli/releases/latest",
-						{
-							headers: { "User-Agent": "pi-wakatime-extension" },
-						},
-						(response) => {
-							let data = "";
-							response.on("data", (chunk) => (data += chunk));
-							response.on("end", () => {
-								try {
-									resolve(JSON.parse(data));
-								} catch (e) {
-									reject(new Error("Failed to parse release info"));
-								}
-							});
-						}
-					)
-					.on("error", reject);
+	// Transports: wakatime-cli, or the WakaTime-compatible HTTP API directly
+	const cliTransport = createCliTransport({
+		getCliPath: () => config.cliPath,
+		isAvailable: (target = {}) => cliAvailable && isApiKeyConfigured(readWakaTimeSettings(target.configFile)),
+		logger,
+	});
+	// Run each config file's api_key_vault_cmd, for the HTTP transport (wakatime-cli runs it itself)
+	async function refreshVaultKey() {
+		vaultApiKeys.clear();
+		for (const configFile of profileConfigFiles()) {
+			const settings = readWakaTimeSettings(configFile);
+			const vaultCmd = settings.api_key_vault_cmd;
+			if (!vaultCmd || directApiKey(settings)) {
+				continue;
+			}
+			try {
+				vaultApiKeys.set(configFile, await readVaultKey(vaultCmd));
+			} catch (error) {
+				logger.warn("api_key_vault_cmd failed", {
+					configFile,
+					error: error instanceof Error ? error.message : String(error),
+				});
 			}
-		);
-
-		// Find the right asset
-		const asset = releaseInfo.assets.find((a) => a.name === zipName);
-		if (!asset) {
-			notify?.(`No wakatime-cli binary found for ${platform}-${arch}`, "warning");
-			return false;
 		}
+	}
 
-		// Download the zip
-		notify?.(`Downloading wakatime-cli ${releaseInfo.tag_name}...`, "info");
-		await downloadFile(asset.browser_download_url, zipPath);
+	// Vault keys are read the first time the HTTP transport needs them in a session
+	let vaultKeysLoaded: Promise<void> | undefined;
+	function loadVaultKeys(): Promise<void> {
+		vaultKeysLoaded ??= refreshVaultKey();
+		return vaultKeysLoaded;
+	}
 
-		// Extract the zip
-		notify?.("Extracting wakatime-cli...", "info");
+	// API key for a config file, from WAKATIME_API_KEY, api_key or api_key_vault_cmd
+	function getApiKey(configFile = getWakaTimeConfigPath()): string | undefined {
+		return directApiKey(readWakaTimeSettings(configFile)) || vaultApiKeys.get(configFile);
+	}
 
-		if (isWindows) {
-			// Use PowerShell on Windows
-			execFileSync("powershell", ["-Command", `Expand-Archive -Path "${zipPath}" -DestinationPath "${installDir}" -Force`]);
-		} else {
-			// Use unzip on Unix-like systems
-			execFileSync("unzip", ["-o", zipPath, "-d", installDir]);
-		}
+	const httpTransport = createHttpTransport({
+		getApiUrl: (configFile) => readWakaTimeSettings(configFile).api_url || DEFAULT_API_URL,
+		getApiKey,
+		logger,
+	});
 
-		// The extracted binary has a platform-specific name, rename it
-		const extractedName = `wakatime-cli-${platform}-${arch}${isWindows ? ".exe" : ""}`;
-		const extractedPath = path.join(installDir, extractedName);
+	function getTransport(): HeartbeatTransport {
+		return config.transport === "http" ? httpTransport : cliTransport;
+	}
 
-		if (fs.existsSync(extractedPath)) {
-			// Remove existing cli if present
-			if (fs.existsSync(cliPath)) {
-				fs.unlinkSync(cliPath);
-			}
-			fs.renameSync(extractedPath, cliPath);
+	// Transport to send or query with, once the HTTP transport has its vault keys
+	async function readyTransport(): Promise<HeartbeatTransport> {
+		if (config.transport === "http") {
+			await loadVaultKeys();
 		}
+		return getTransport();
+	}
 
-		// Make executable on Unix
-		if (!isWindows) {
-			fs.chmodSync(cliPath, 0o755);
+	// Deliver a batch, keeping anything undeliverable in the offline queue
+	async function deliverHeartbeats(batch: Heartbeat[]) {
+		const transport = await readyTransport();
+		if (!transport.isAvailable(activeTarget())) {
+			offlineQueue.append(batch);
+			statusBar.delivered(false, offlineQueue.size());
+			return;
 		}
 
-		// Clean up zip file
-		fs.unlinkSync(zipPath);
+		const failed = await transport.send(batch);
+		offlineQueue.append(failed);
+		statusBar.delivered(failed.length < batch.length, offlineQueue.size());
 
-		notify?.(`wakatime-cli ${releaseInfo.tag_name} installed successfully!`, "info");
-		return true;
-	} catch (error) {
-		// Clean up on failure
-		if (fs.existsSync(zipPath)) {
-			try {
-				fs.unlinkSync(zipPath);
-			} catch {}
+		// Delivery works, so catch up on anything queued earlier
+		if (failed.length < batch.length) {
+			void replayOfflineQueue();
 		}
-
-		const message = error instanceof Error ? error.message : String(error);
-		notify?.(`Failed to install wakatime-cli: ${message}`, "error");
-		return false;
 	}
-}
 
-export default function (pi: ExtensionAPI) {
-	// Default configuration
-	const defaultConfig: WakaTimeConfig = {
-		enabled: true,
-		trackFiles: true,
-		trackSessions: false, // Disabled by default - session heartbeats use cwd which pollutes file stats
-		category: "ai coding",
-		cliPath: path.join(os.homedir(), ".wakatime", "wakatime-cli"),
-	};
-
-	let config: WakaTimeConfig = { ...defaultConfig };
-	let currentModel: string | undefined;
-	let currentProject: string | undefined;
-	let currentBranch: string | undefined;
-	let cliAvailable = false;
-	const piVersion = getPiVersion();
+	// Replay offline heartbeats (with their original timestamps) once delivery is possible
+	async function replayOfflineQueue(): Promise<number> {
+		const transport = await readyTransport();
+		if (!transport.isAvailable(activeTarget())) {
+			return 0;
+		}
+		return offlineQueue.drain((batch) => transport.send(batch));
+	}
 
-	// Load config from settings
-	function loadConfig(ctx: { cwd: string }) {
-		try {
-			const settingsPath = path.join(os.homedir(), ".pi", "agent", "settings.json");
-			if (fs.existsSync(settingsPath)) {
-				const settings = JSON.parse(fs.readFileSync(settingsPath, "utf-8"));
-				if (settings.wakatime) {
-					config = { ...defaultConfig, ...settings.wakatime };
-				}
+	const heartbeatQueue = createHeartbeatQueue({ send: deliverHeartbeats });
+	const sessionRecorder = createSessionRecorder();
+	const ledger = createLedger(path.join(os.homedir(), ".pi", "agent", "wakatime-ledger"));
+	// Most recently tracked file or session directory, for keepalive heartbeats
+	let lastEntity: HeartbeatOptions | undefined;
+	const activity = createActivityTracker({
+		sendKeepalive: () => {
+			// Only while the setting that tracked it is still on
+			const tracking = lastEntity?.entityType === "file" ? config.trackFiles : config.trackSessions;
+			if (config.enabled && config.keepalive && lastEntity && tracking) {
+				sendHeartbeat(lastEntity);
 			}
-		} catch {
-			// Use defaults
-		}
+		},
+	});
 
-		// Expand ~ in cliPath
-		if (config.cliPath.startsWith("~")) {
-			config.cliPath = path.join(os.homedir(), config.cliPath.slice(1));
-		}
+	// Budgets are totaled from the ledger, so they aren't checked while it's off
+	const budgetMonitor = createBudgetMonitor({
+		readLedger: (range) => ledger.read(range),
+		getBudgets: () => (config.ledger ? config.budgets : []),
+		projectName: (name) => (config.hideProjectNames ? obfuscateProjectName(name) : name),
+	});
 
-		// Check if CLI exists
-		cliAvailable = fs.existsSync(config.cliPath);
+	// Today's total and this session's AI time in the footer
+	const statusBar = createStatusBar({
+		getTodayTime: async () => (await readyTransport()).getTodayTime(activeTarget()),
+		getSessionSeconds: () =>
+			[...modelTracker.getSessionTotals().values()].reduce((sum, totals) => sum + totals.seconds, 0),
+		isEnabled: () => config.enabled,
+	});
 
-		// Detect project from cwd
-		currentProject = path.basename(ctx.cwd);
+	function buildSessionReport() {
+		return sessionRecorder.build(lineStats, modelTracker.getSessionTotals(), activity.getTotals());
+	}
 
-		// Try to detect git branch
+	// Write the session report to sessionReportDir (relative to the project root), returning its path
+	function saveSessionReport(format: ReportFormat, cwd: string): string | undefined {
+		let dir = expandHome(config.sessionReportDir);
+		if (!path.isAbsolute(dir)) {
+			dir = path.resolve(projectResolver?.resolve(cwd).gitRoot ?? cwd, dir);
+		}
 		try {
-			const gitDir = findGitDir(ctx.cwd);
-			if (gitDir) {
-				const headPath = path.join(gitDir, "HEAD");
-				if (fs.existsSync(headPath)) {
-					const head = fs.readFileSync(headPath, "utf-8").trim();
-					if (head.startsWith("ref: refs/heads/")) {
-						currentBranch = head.replace("ref: refs/heads/", "");
-					}
-				}
-			}
-		} catch {
-			// No git branch
+			const filePath = writeReport(buildSessionReport(), dir, format, cwd);
+			logger.info("Session report written", { path: filePath });
+			return filePath;
+		} catch (error) {
+			logger.warn("Failed to write session report", { dir, error: error instanceof Error ? error.message : String(error) });
+			return undefined;
 		}
 	}
 
-	// Find .git directory
-	function findGitDir(startDir: string): string | null {
-		let dir = startDir;
-		while (dir !== path.dirname(dir)) {
-			const gitDir = path.join(dir, ".git");
-			if (fs.existsSync(gitDir)) {
-				// Handle both regular .git dir and worktree .git file
-				const stat = fs.statSync(gitDir);
-				if (stat.isDirectory()) {
-					return gitDir;
-				} else if (stat.isFile()) {
-					// .git file pointing to worktree
-					const content = fs.readFileSync(gitDir, "utf-8").trim();
-					if (content.startsWith("gitdir: ")) {
-						return content.slice(8);
-					}
-				}
-			}
-			dir = path.dirname(dir);
+	// Turn tracking on or off for this session
+	function setTrackingEnabled(enabled: boolean) {
+		config.enabled = enabled;
+		sessionValues.enabled = enabled;
+		if (configSources) {
+			configSources.enabled = "session";
 		}
-		return null;
+		statusBar.update();
 	}
 
-	// Count lines in content
-	function countLines(content: string): number {
-		return content.split("\n").length;
+	// Warn about a budget threshold; past 100%, pause tracking or ask first, depending on budgetAction
+	async function handleBudgetAlert(alert: BudgetAlert, ctx: { ui: ExtensionCommandContext["ui"] }) {
+		const message =
+			`WakaTime budget for ${alert.label}: ${alert.percent}% used ` +
+			`(${formatDuration(alert.seconds)} of ${formatDuration(alert.limitSeconds)})`;
+		logger.info("Budget threshold reached", { budget: alert.label, threshold: alert.threshold, seconds: alert.seconds });
+		if (alert.threshold < 100 || config.budgetAction === "notify" || !config.enabled) {
+			ctx.ui.notify(message, "warning");
+			return;
+		}
+		if (config.budgetAction === "confirm" && (await ctx.ui.confirm("WakaTime budget exceeded", `${message}\n\nKeep tracking?`))) {
+			return;
+		}
+		setTrackingEnabled(false);
+		ctx.ui.notify(`${message}\nTracking is paused for this session, /wakatime-toggle resumes it.`, "warning");
 	}
 
-	// Get today's tracked time from wakatime-cli
-	function getTodayTime(): Promise<string> {
-		return new Promise((resolve) => {
-			if (!cliAvailable) {
-				resolve("(CLI not available)");
-				return;
-			}
+	// Show or hide the status bar after settings change
+	function updateStatusBar(ctx: { hasUI: boolean; ui: ExtensionCommandContext["ui"] }) {
+		if (ctx.hasUI && config.statusBar) {
+			statusBar.start((text) => ctx.ui.setStatus("wakatime", text));
+		} else {
+			statusBar.stop();
+		}
+	}
 
-			execFile(config.cliPath, ["--today"], { timeout: 10000 }, (error, stdout) => {
-				if (error) {
-					if (process.env.DEBUG) {
-						console.error("[wakatime] failed to get today's time:", error.message);
-					}
-					resolve("(failed to fetch)");
-					return;
-				}
+	// A profile's category replaces the global category, but not one set for the project or session
+	function profileCategory(profile: ActiveProfile | undefined): string | undefined {
+		const source = configSources?.category ?? "default";
+		return source === "default" || source === "global" ? profile?.category : undefined;
+	}
 
-				const time = stdout.trim();
-				resolve(time || "0 secs");
-			});
-		});
+	// Project and branch of an activity (resolved from the entity when not given). Entities
+	// outside every project get none, rather than the session's.
+	function activityProject(opts: HeartbeatOptions): { project?: string; branch?: string } {
+		const resolved = projectResolver?.resolve(opts.entity);
+		const project = opts.project || (resolved ? resolved.project : currentProject);
+		const branch =
+			opts.branch || (opts.project || (resolved && !resolved.project) ? undefined : resolved?.branch || currentBranch);
+		return { project, branch };
 	}
 
-	// Send heartbeat via wakatime-cli
-	function sendHeartbeat(opts: HeartbeatOptions) {
-		if (!config.enabled || !cliAvailable) {
-			return;
-		}
+	// Build the heartbeat for an activity, or undefined if privacy settings exclude it
+	function buildHeartbeat(opts: HeartbeatOptions): Heartbeat | undefined {
+		const resolved = projectResolver?.resolve(opts.entity);
+		const { project, branch } = activityProject(opts);
+		const type = opts.entityType ?? "file";
+		const profile = profileSelector.select(resolved?.root, resolved?.gitRoot);
 
-		const args: string[] = [];
+		// Privacy: include/exclude globs and .wakatime-ignore opt-outs
+		if (!privacyFilter.shouldTrack(opts.entity, resolved?.root)) {
+			return undefined;
+		}
 
-		// Entity (file path or app name)
-		args.push("--entity", opts.entity);
+		// Obfuscate names; the language can't be detected from a hidden file name
+		let entity = opts.entity;
+		let language: string | undefined;
+		if (config.hideFileNames) {
+			language = type === "file" ? detectLanguage(entity) : undefined;
+			entity = type === "file" ? obfuscateFileName(entity) : "HIDDEN";
+		}
 
-		// Entity type
-		if (opts.entityType) {
-			args.push("--entity-type", opts.entityType);
+		// Plugin identifier - "pi-coding-agent/version" is recognized by WakaTime as "Pi Coding"
+		const model = opts.model || currentModel;
+		let plugin = opts.plugin || `pi-coding-agent/${piVersion}`;
+		if (model && config.modelEncoding === "plugin") {
+			// Extra "name/version" tokens: provider as name, model id as version
+			plugin += ` pi-wakatime/${EXTENSION_VERSION} ${model}`;
 		}
 
-		// Category (default: "AI assist")
-		args.push("--category", opts.category || config.category);
+		return {
+			entity,
+			type,
+			category: opts.category || profileCategory(profile) || config.category,
+			time: Date.now() / 1000,
+			project: project && config.hideProjectNames ? obfuscateProjectName(project) : project,
+			branch,
+			isWrite: !!opts.isWrite,
+			aiLineChanges: opts.aiLineChanges,
+			language,
+			// Hidden entities don't exist on disk, which wakatime-cli would otherwise skip
+			isUnsavedEntity: config.hideFileNames && type === "file" ? true : undefined,
+			plugin,
+			// Model as machine name, so WakaTime's Machines breakdown splits time by model
+			hostname: model && config.modelEncoding === "hostname" ? model : undefined,
+			configFile: profile?.configFile,
+			apiUrl: profile?.apiUrl,
+		};
+	}
 
-		// Let wakatime-cli auto-detect language from file extension/content
-		// (removed manual --language flag as wakatime-cli detection is more reliable)
+	// Queue a heartbeat for the active transport (or the offline queue if it's unavailable).
+	// Returns false if tracking is off or privacy settings exclude the entity.
+	function sendHeartbeat(opts: HeartbeatOptions): boolean {
+		if (!config.enabled) {
+			return false;
+		}
 
-		// Project
-		if (opts.project || currentProject) {
-			args.push("--project", opts.project || currentProject!);
+		const heartbeat = buildHeartbeat(opts);
+		if (!heartbeat) {
+			return false;
 		}
 
-		// Branch
-		if (opts.branch || currentBranch) {
-			args.push("--alternate-branch", opts.branch || currentBranch!);
+		const model = opts.model || currentModel;
+		if (model) {
+			modelTracker.record(model);
+		}
+		// Under the heartbeat's own project (before hideProjectNames), "(no project)" if it has none
+		const { project, branch } = activityProject(opts);
+		sessionRecorder.recordActivity(project, branch);
+
+		if (heartbeatQueue.enqueue(heartbeat) && config.ledger) {
+			ledger.append({
+				time: heartbeat.time,
+				entity: heartbeat.entity,
+				type: heartbeat.type,
+				category: heartbeat.category,
+				project: heartbeat.project,
+				branch: heartbeat.branch,
+				language: heartbeat.language ?? (heartbeat.type === "file" ? detectLanguage(opts.entity) : undefined),
+				model,
+				isWrite: heartbeat.isWrite,
+				lines: heartbeat.aiLineChanges,
+			});
 		}
+		return true;
+	}
 
-		// Write flag
-		if (opts.isWrite) {
-			args.push("--write");
+	// Send a file heartbeat attributed to the file's own project and branch.
+	// Returns false if tracking is off or privacy settings exclude the file.
+	function trackFile(
+		absolutePath: string,
+		opts: Omit<HeartbeatOptions, "entity" | "entityType" | "project" | "branch">
+	): boolean {
+		const projectInfo = projectResolver?.resolve(absolutePath);
+		const tracked = sendHeartbeat({
+			...opts,
+			entity: absolutePath,
+			entityType: "file",
+			project: projectInfo?.project,
+			branch: projectInfo?.branch,
+		});
+		if (tracked) {
+			// Excluded files and files outside every project don't change the current project
+			if (projectInfo?.project) {
+				currentProject = projectInfo.project;
+				currentBranch = projectInfo.branch;
+			}
+			sessionRecorder.recordFile(absolutePath, projectInfo?.project, !!opts.isWrite);
+			// Keepalives use the configured category, not e.g. the category of a test run
+			lastEntity = {
+				entity: absolutePath,
+				entityType: "file",
+				project: projectInfo?.project,
+				branch: projectInfo?.branch,
+			};
 		}
+		return tracked;
+	}
 
-		// AI line changes
-		if (opts.aiLineChanges && opts.aiLineChanges > 0) {
-			args.push("--ai-line-changes", String(opts.aiLineChanges));
+	// Send a session heartbeat for the directory, which keepalives then repeat
+	function trackSession(cwd: string) {
+		if (sendHeartbeat({ entity: cwd, entityType: "app" })) {
+			lastEntity = { entity: cwd, entityType: "app" };
 		}
+	}
 
-		// Plugin identifier - "pi-coding-agent/version" is recognized by WakaTime as "Pi Coding"
-		const plugin = opts.plugin || `pi-coding-agent/${piVersion}`;
-		args.push("--plugin", plugin);
+	// Send heartbeats for a finished bash command
+	async function trackBashCommand(command: string, snapshot: MtimeSnapshot | undefined, cwd: string) {
+		const category = classifyCommand(command);
+		const modified = snapshot ? diffSnapshots(snapshot, await takeSnapshot(snapshot.root)) : [];
+		const modifiedSet = new Set(modified);
+		const referenced = extractFileArgs(command, cwd).filter((file) => !modifiedSet.has(file));
 
-		// Debug output
-		if (process.env.DEBUG) {
-			console.error("[wakatime] heartbeat:", config.cliPath, args.join(" "));
+		for (const file of modified) {
+			trackFile(file, { category, isWrite: true });
+		}
+		for (const file of referenced) {
+			trackFile(file, { category });
 		}
 
-		// Execute async, ignore errors
-		execFile(config.cliPath, args, { timeout: 10000 }, (error, stdout, stderr) => {
-			if (process.env.DEBUG) {
-				if (error) {
-					console.error("[wakatime] heartbeat failed:", error.message);
-				}
-				if (stdout) {
-					console.error("[wakatime] stdout:", stdout);
-				}
-				if (stderr) {
-					console.error("[wakatime] stderr:", stderr);
-				}
-			}
-		});
+		// Test runs and builds count even when they touch no files
+		if (category && modified.length === 0 && referenced.length === 0) {
+			sendHeartbeat({
+				entity: cwd,
+				entityType: "app",
+				category,
+			});
+		}
 	}
 
 	// Helper to update currentModel from context
@@ -533,39 +701,80 @@ export default function (pi: ExtensionAPI) {
 
 	// Track session start
 	pi.on("session_start", async (_event, ctx) => {
+		// Runtime changes only last for the session they were made in
+		for (const key of Object.keys(sessionValues) as (keyof WakaTimeConfig)[]) {
+			delete sessionValues[key];
+		}
 		loadConfig(ctx);
 		updateModelFromContext(ctx);
+		lineStats.clear();
+		modelTracker.resetSession();
+		sessionRecorder.reset();
+		activity.reset();
+		lastEntity = undefined;
+		privacyFilter.clear();
+		budgetMonitor.reset();
+
+		logger.info("Session started", {
+			cwd: ctx.cwd,
+			transport: config.transport,
+			cliAvailable,
+			version: EXTENSION_VERSION,
+		});
+		for (const problem of configProblems) {
+			logger.warn("Settings problem", { source: problem.source, problem: problem.message });
+		}
+
+		if (configProblems.length > 0 && ctx.hasUI) {
+			ctx.ui.notify(
+				`WakaTime settings problems:\n${configProblems.map((problem) => `  ${formatConfigProblem(problem)}`).join("\n")}`,
+				"warning"
+			);
+		}
 
-		// Auto-install wakatime-cli if not found
-		if (!cliAvailable) {
+		// Auto-install wakatime-cli if not found (not needed by the HTTP transport)
+		if (!cliAvailable && config.transport === "cli") {
 			const notify = ctx.hasUI ? ctx.ui.notify.bind(ctx.ui) : undefined;
 			notify?.("WakaTime CLI not found, attempting auto-install...", "info");
 
-			const installed = await installWakaTimeCli(config.cliPath, notify);
+			const installed = await installCli(notify);
 			if (installed) {
 				cliAvailable = true;
 			} else {
 				if (ctx.hasUI) {
 					ctx.ui.notify(
-						"WakaTime CLI not found. Install manually from: https://wakatime.com/terminal",
+						"WakaTime CLI not found. Install manually from: https://wakatime.com/terminal\n" +
+						"Activity is kept in the offline queue until then.",
 						"warning"
 					);
 				}
-				return;
 			}
 		}
 
+		// Check for CLI updates in the background (the latest release is looked up at most once a day)
+		if (cliAvailable && config.transport === "cli" && config.cliUpdates !== "off") {
+			void checkCliUpdates(ctx.hasUI ? ctx.ui.notify.bind(ctx.ui) : undefined);
+		}
+
 		// Check if API key is configured
-		if (!isApiKeyConfigured()) {
+		if (!isApiKeyConfigured(readWakaTimeSettings(activeTarget().configFile))) {
 			if (ctx.hasUI) {
 				ctx.ui.notify(
-					"WakaTime API key not configured. Run /wakatime-setup to configure.",
+					`WakaTime API key not configured${activeProfile?.configFile ? ` in ${activeProfile.configFile} (profile ${activeProfile.name})` : ""}. ` +
+					"Run /wakatime-setup to configure.\n" +
+					"Activity is kept in the offline queue until then.",
 					"warning"
 				);
 			}
-			// Disable tracking until API key is configured
-			config.enabled = false;
-			return;
+		}
+
+		// Show the status bar and send heartbeats queued while offline
+		vaultKeysLoaded = undefined;
+		updateStatusBar(ctx);
+		void replayOfflineQueue();
+
+		if (ctx.hasUI) {
+			budgetMonitor.start((alert) => void handleBudgetAlert(alert, ctx));
 		}
 
 		if (!config.enabled) {
@@ -574,11 +783,7 @@ export default function (pi: ExtensionAPI) {
 
 		// Send initial heartbeat for session
 		if (config.trackSessions) {
-			sendHeartbeat({
-				entity: ctx.cwd,
-				entityType: "app",
-				category: config.category,
-			});
+			trackSession(ctx.cwd);
 		}
 	});
 
@@ -587,22 +792,75 @@ export default function (pi: ExtensionAPI) {
 		currentModel = `${event.model.provider}/${event.model.id}`;
 	});
 
+	// Track when the agent works and when it waits for the user
+	pi.on("agent_start", async () => {
+		activity.agentStart();
+	});
+
+	pi.on("agent_end", async () => {
+		activity.agentEnd();
+		// Tool calls of an aborted turn never get a tool_result
+		bashSnapshots.clear();
+		previousContents.clear();
+	});
+
+	pi.on("message_update", async () => {
+		activity.activity();
+	});
+
+	pi.on("tool_execution_start", async () => {
+		activity.toolStart();
+	});
+
+	pi.on("tool_execution_end", async () => {
+		activity.toolEnd();
+	});
+
+	pi.on("turn_end", async () => {
+		activity.activity();
+	});
+
 	// Track turn activity
 	pi.on("turn_start", async (_event, ctx) => {
+		activity.activity();
 		if (!config.enabled || !config.trackSessions) {
 			return;
 		}
 
 		updateModelFromContext(ctx);
-		sendHeartbeat({
-			entity: ctx.cwd,
-			entityType: "app",
-			category: config.category,
-		});
+		trackSession(ctx.cwd);
+	});
+
+	// Snapshot state before tools run: project mtimes for bash, file contents for write/edit
+	pi.on("tool_call", async (event, ctx) => {
+		if (!config.enabled || !config.trackFiles) {
+			return;
+		}
+
+		if (event.toolName === "bash" && config.trackBash) {
+			// Outside a repository (e.g. in $HOME) the walk would be too large to be useful
+			const root = projectResolver?.resolve(ctx.cwd).gitRoot;
+			if (root) {
+				bashSnapshots.set(event.toolCallId, await takeSnapshot(root));
+			}
+		} else if (event.toolName === "write" || event.toolName === "edit") {
+			const filePath = event.input?.path as string | undefined;
+			if (filePath) {
+				const previous = readForDiff(resolveToolPath(filePath, ctx.cwd));
+				if (previous !== undefined) {
+					previousContents.set(event.toolCallId, previous);
+				}
+			}
+		}
 	});
 
 	// Track file operations
 	pi.on("tool_result", async (event, ctx) => {
+		const snapshot = bashSnapshots.get(event.toolCallId);
+		const previous = previousContents.get(event.toolCallId);
+		bashSnapshots.delete(event.toolCallId);
+		previousContents.delete(event.toolCallId);
+
 		if (!config.enabled || !config.trackFiles) {
 			return;
 		}
@@ -610,6 +868,15 @@ export default function (pi: ExtensionAPI) {
 		updateModelFromContext(ctx);
 		const toolName = event.toolName;
 
+		// Bash commands are inspected for modified files and test/build runs
+		if (toolName === "bash") {
+			const command = event.input?.command as string | undefined;
+			if (config.trackBash && command) {
+				await trackBashCommand(command, snapshot, ctx.cwd);
+			}
+			return;
+		}
+
 		// Only track file operations
 		if (!["read", "write", "edit"].includes(toolName)) {
 			return;
@@ -621,54 +888,56 @@ export default function (pi: ExtensionAPI) {
 			return;
 		}
 
-		// Resolve to absolute path and normalize (removes trailing slashes, resolves . and ..)
-		const absolutePath = path.normalize(
-			path.isAbsolute(filePath) ? filePath : path.resolve(ctx.cwd, filePath)
-		);
+		const absolutePath = resolveToolPath(filePath, ctx.cwd);
 
-		// Skip if file doesn't exist (for reads that failed)
-		if (toolName === "read" && !fs.existsSync(absolutePath)) {
+		// A failed or rejected write/edit changed nothing, so it counts like a read
+		const isWrite = toolName !== "read" && !event.isError;
+
+		// Skip if file doesn't exist (for reads and writes that failed)
+		if (!isWrite && !fs.existsSync(absolutePath)) {
 			return;
 		}
 
 		// Calculate line changes for write/edit
-		let aiLineChanges: number | undefined;
-		if (toolName === "write") {
-			const content = event.input?.content as string | undefined;
-			if (content) {
-				aiLineChanges = countLines(content);
-			}
-		} else if (toolName === "edit") {
-			const oldText = event.input?.oldText as string | undefined;
-			const newText = event.input?.newText as string | undefined;
-			if (oldText && newText) {
-				const oldLines = countLines(oldText);
-				const newLines = countLines(newText);
-				aiLineChanges = Math.abs(newLines - oldLines) || 1; // At least 1 line changed
-			}
-		}
+		const diff = isWrite ? computeLineDiff(toolName, event.input, absolutePath, previous) : undefined;
 
-		sendHeartbeat({
-			entity: absolutePath,
-			entityType: "file",
-			isWrite: toolName !== "read",
-			aiLineChanges,
+		const tracked = trackFile(absolutePath, {
+			isWrite,
+			aiLineChanges: diff ? diff.added + diff.removed : undefined,
 		});
+		// Files excluded by privacy settings don't count towards the session's line totals
+		if (tracked && diff) {
+			recordLineStats(absolutePath, diff);
+		}
 	});
 
 	// Track session end
 	pi.on("session_shutdown", async (_event, ctx) => {
-		if (!config.enabled || !config.trackSessions) {
-			return;
+		if (config.enabled && config.trackSessions) {
+			updateModelFromContext(ctx);
+			// Final heartbeat
+			sendHeartbeat({
+				entity: ctx.cwd,
+				entityType: "app",
+			});
 		}
 
-		updateModelFromContext(ctx);
-		// Final heartbeat
-		sendHeartbeat({
-			entity: ctx.cwd,
-			entityType: "app",
-			category: config.category,
-		});
+		// Send everything still queued before pi exits
+		await heartbeatQueue.flush();
+		// After the final heartbeat, which adds the last interval to the model totals
+		modelTracker.save();
+		statusBar.stop();
+		activity.stop();
+		budgetMonitor.stop();
+
+		if (sessionRecorder.hasActivity()) {
+			if (config.sessionReportFormat !== "off") {
+				saveSessionReport(config.sessionReportFormat, ctx.cwd);
+			}
+			if (ctx.hasUI && config.sessionReport) {
+				ctx.ui.notify(formatReport(buildSessionReport(), ctx.cwd), "info");
+			}
+		}
 	});
 
 	// Register command to check status
@@ -680,39 +949,131 @@ export default function (pi: ExtensionAPI) {
 			const status: string[] = [];
 
 			// Fetch today's time
-			const todayTime = await getTodayTime();
+			const todayTime = await (await readyTransport()).getTodayTime(activeTarget());
 			status.push(`⏱️  Today: ${todayTime}`);
 			status.push("");
 
-			// CLI status
+			// Profile
+			const { configFile = getWakaTimeConfigPath(), apiUrl: profileUrl } = activeTarget();
+			if (activeProfile) {
+				status.push(`Profile: ${activeProfile.name} (${activeProfile.reason})`);
+				status.push(`  Config file: ${configFile}`);
+				if (activeProfile.category) {
+					status.push(`  Category: ${activeProfile.category}`);
+				}
+			} else if (Object.keys(config.profiles).length > 0) {
+				status.push(`Profile: none matched, using ${configFile}`);
+			}
+			if (Object.keys(config.profiles).length > 0) {
+				status.push(`  Profiles: ${Object.keys(config.profiles).join(", ")}`);
+				status.push("");
+			}
+
+			// Server status
+			const settings = readWakaTimeSettings(configFile);
+			const apiUrl = profileUrl || settings.api_url || DEFAULT_API_URL;
+			let apiKey = directApiKey(settings);
+			let vaultError: string | undefined;
+			if (!apiKey && settings.api_key_vault_cmd) {
+				try {
+					apiKey = await readVaultKey(settings.api_key_vault_cmd);
+				} catch (error) {
+					vaultError = error instanceof Error ? error.message : String(error);
+				}
+			}
+			const server = await checkServer(apiUrl, apiKey);
+			status.push(`Server: ${apiUrl}${isCustomServer(profileUrl || settings.api_url) ? " (custom)" : ""}`);
+			if (server.reachable) {
+				status.push(`✓ Server reachable (HTTP ${server.status}${server.status === 401 ? ", API key rejected" : ""})`);
+			} else {
+				status.push(`❌ Server unreachable: ${server.error}`);
+			}
+			status.push("");
+
+			// Transport and CLI status
+			status.push(`Transport: ${config.transport}`);
 			if (!cliAvailable) {
 				status.push("❌ CLI not found: " + config.cliPath);
 				status.push("   Run /wakatime-install to auto-install");
 			} else {
 				status.push("✓ CLI found: " + config.cliPath);
+				const versions = await checkCliVersion();
+				const available = versions.available
+					? `${versions.pinned ? "pinned" : "latest"} ${versions.available}` +
+						(versions.checkedAt ? `, checked ${formatDuration((Date.now() - versions.checkedAt) / 1000)} ago` : "")
+					: "latest unknown";
+				status.push(`  Version: ${versions.installed ?? "unknown"} (${available})`);
+				if (versions.outdated) {
+					status.push("  ⚠ Update available, run /wakatime-install");
+				}
+				if (versions.error) {
+					status.push(`  ${versions.error}`);
+				}
 			}
 
 			// API key status
-			if (!isApiKeyConfigured()) {
+			if (!isApiKeyConfigured(settings)) {
 				status.push("❌ API key not configured");
-				status.push("   Run /wakatime-setup <api_key> to configure");
+				status.push("   Run /wakatime-setup to configure");
 				status.push("   Get your key from: https://wakatime.com/settings/api-key");
+			} else if (vaultError) {
+				status.push(`❌ api_key_vault_cmd failed: ${vaultError}`);
+			} else if (!directApiKey(settings)) {
+				status.push(`✓ API key from api_key_vault_cmd (${settings.api_key_vault_cmd})`);
+			} else if (process.env.WAKATIME_API_KEY) {
+				status.push("✓ API key from WAKATIME_API_KEY");
 			} else {
 				status.push("✓ API key configured");
 			}
 
 			status.push("");
-			status.push("Configuration:");
-			status.push(`  Enabled: ${config.enabled}`);
-			status.push(`  Track files: ${config.trackFiles}`);
-			status.push(`  Track sessions: ${config.trackSessions}`);
-			status.push(`  Category: ${config.category}`);
+			status.push("Configuration (value [layer]):");
+			for (const key of Object.keys(DEFAULT_CONFIG) as (keyof WakaTimeConfig)[]) {
+				status.push(`  ${key}: ${JSON.stringify(config[key])} [${configSources?.[key] ?? "default"}]`);
+			}
+			if (projectSettingsPaths.length > 0) {
+				status.push(`  Project settings: ${projectSettingsPaths.join(", ")}`);
+			}
+			if (configProblems.length > 0) {
+				status.push("  Problems:");
+				for (const problem of configProblems) {
+					status.push(`    ⚠ ${formatConfigProblem(problem)}`);
+				}
+			}
 
 			status.push("");
 			status.push("Current session:");
 			status.push(`  Project: ${currentProject || "(none)"}`);
 			status.push(`  Branch: ${currentBranch || "(none)"}`);
 			status.push(`  Model: ${currentModel || "(none)"}`);
+			status.push(`  Queued heartbeats: ${heartbeatQueue.size()}`);
+			const offlineSize = offlineQueue.size();
+			const oldestOffline = offlineQueue.oldestTime();
+			status.push(
+				`  Offline queue: ${offlineSize} heartbeat(s)` +
+				(oldestOffline !== undefined ? `, oldest ${formatDuration(Date.now() / 1000 - oldestOffline)} ago` : "")
+			);
+			const totals = [...lineStats.values()].reduce(
+				(sum, diff) => ({ added: sum.added + diff.added, removed: sum.removed + diff.removed }),
+				{ added: 0, removed: 0 }
+			);
+			status.push(`  Lines changed: +${totals.added} -${totals.removed} in ${lineStats.size} file(s)`);
+			const times = activity.getTotals();
+			status.push(
+				`  Agent working: ${formatDuration(times.agentSeconds)}${times.working ? " (now)" : ""}, ` +
+				`waiting for you: ${formatDuration(times.waitingSeconds)}`
+			);
+
+			const allTimeModels = modelTracker.getAllTimeTotals();
+			if (allTimeModels.size > 0) {
+				const sessionModels = modelTracker.getSessionTotals();
+				status.push("");
+				status.push("Model time (session / all time):");
+				for (const [model, totals] of [...allTimeModels].sort((a, b) => b[1].seconds - a[1].seconds)) {
+					const sessionSeconds = sessionModels.get(model)?.seconds ?? 0;
+					status.push(`  ${model}: ${formatDuration(sessionSeconds)} / ${formatDuration(totals.seconds)}`);
+				}
+			}
 
 			status.push("");
 			status.push("Version info:");
@@ -725,61 +1086,441 @@ export default function (pi: ExtensionAPI) {
 
 	// Register command to manually install wakatime-cli
 	pi.registerCommand("wakatime-install", {
-		description: "Install or update wakatime-cli",
-		handler: async (_args, ctx) => {
+		description: "Install or update wakatime-cli: /wakatime-install [zip path or URL] [--force]",
+		handler: async (args, ctx) => {
 			const notify = ctx.hasUI ? ctx.ui.notify.bind(ctx.ui) : undefined;
-
-			if (cliAvailable) {
-				notify?.("wakatime-cli is already installed. Reinstalling...", "info");
+			const tokens = args.trim().split(/\s+/).filter(Boolean);
+			const force = tokens.includes("--force");
+			const source = tokens.find((token) => token !== "--force");
+
+			// Skip the download when the installed CLI already matches the pinned or latest release
+			let version = config.cliVersion;
+			if (cliAvailable && !source) {
+				const status = await checkCliVersion(true);
+				if (!force && status.installed && status.available && !status.outdated) {
+					notify?.(`wakatime-cli ${status.installed} is up to date. Use --force to reinstall.`, "info");
+					return;
+				}
+				version = status.available ?? version;
+				notify?.(
+					status.installed
+						? `Updating wakatime-cli ${status.installed} to ${version}...`
+						: "wakatime-cli is already installed. Reinstalling...",
+					"info"
+				);
 			}
 
-			const installed = await installWakaTimeCli(config.cliPath, notify);
+			const installed = await installCli(notify, source, version);
 			if (installed) {
 				cliAvailable = true;
+				void checkCliVersion();
+				void replayOfflineQueue();
 			}
 		},
 	});
 
-	// Register command to setup WakaTime API key
-	pi.registerCommand("wakatime-setup", {
-		description: "Configure WakaTime API key",
-		args: [{ name: "api_key", description: "Your WakaTime API key (from https://wakatime.com/settings/api-key)", optional: true }],
+	// Register command to show the debug log
+	pi.registerCommand("wakatime-log", {
+		description: "Show recent log entries: /wakatime-log [n] [--errors]",
 		handler: async (args, ctx) => {
 			if (!ctx.hasUI) return;
 
-			const apiKey = args.api_key as string | undefined;
+			const tokens = args.trim().split(/\s+/).filter(Boolean);
+			const errorsOnly = tokens.includes("--errors");
+			const count = Number.parseInt(tokens.find((token) => /^\d+$/.test(token)) ?? "20", 10);
 
-			if (!apiKey) {
+			const entries = logger.read(count, errorsOnly ? "warn" : "debug");
+			if (entries.length === 0) {
 				ctx.ui.notify(
-					"Usage: /wakatime-setup <api_key>\n\n" +
-					"Get your API key from: https://wakatime.com/settings/api-key\n\n" +
-					"Example: /wakatime-setup waka_xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+					`No ${errorsOnly ? "warnings or errors" : "entries"} in ${logPath} (logLevel: ${config.logLevel})`,
 					"info"
 				);
 				return;
 			}
 
-			// Validate API key format
-			if (!isValidApiKey(apiKey)) {
+			const lines = [`Last ${entries.length} ${errorsOnly ? "warning/error " : ""}entries from ${logPath}:`, ""];
+			lines.push(...entries.map(formatLogEntry));
+
+			const failures = entries.filter((entry) => entry.level === "error").length;
+			if (!errorsOnly && failures > 0) {
+				lines.push("", `${failures} failure(s) above; /wakatime-log ${count} --errors lists only problems`);
+			}
+			ctx.ui.notify(lines.join("\n"), failures > 0 ? "warning" : "info");
+		},
+	});
+
+	// Register command to diagnose why heartbeats aren't arriving
+	pi.registerCommand("wakatime-doctor", {
+		description: "Diagnose wakatime-cli, ~/.wakatime.cfg, the server and what would be sent",
+		handler: async (_args, ctx) => {
+			if (!ctx.hasUI) return;
+
+			ctx.ui.notify("Running WakaTime diagnostics...", "info");
+			const checks = await runDoctor({
+				cliPath: config.cliPath,
+				transport: config.transport,
+				offlineQueueSize: offlineQueue.size(),
+				configPath: activeTarget().configFile,
+				apiUrl: activeTarget().apiUrl,
+				dryRunHeartbeat: () => {
+					if (!config.enabled) {
+						return { reason: "tracking is disabled (enabled = false)" };
+					}
+					const heartbeat = buildHeartbeat({ entity: ctx.cwd, entityType: "app" });
+					return heartbeat
+						? { heartbeat }
+						: { reason: `${ctx.cwd} is excluded by include/exclude or a .wakatime-ignore file` };
+				},
+			});
+
+			const failed = checks.some((check) => check.status === "fail");
+			ctx.ui.notify(formatDoctorReport(checks), failed ? "error" : "info");
+		},
+	});
+
+	// Walk through /wakatime-setup interactively, then save the key and changed settings
+	async function runWizard(ctx: ExtensionCommandContext) {
+		const { configFile = getWakaTimeConfigPath() } = activeTarget();
+		const current = readWakaTimeSettings(configFile);
+		let apiKey = current.api_key || undefined;
+		if (!apiKey && current.api_key_vault_cmd) {
+			apiKey = await readVaultKey(current.api_key_vault_cmd).catch(() => undefined);
+		}
+		const result = await runSetupWizard(ctx.ui, {
+			apiKey,
+			apiUrl: current.api_url || undefined,
+			vaultCmd: current.api_key_vault_cmd || undefined,
+			config,
+		});
+		if (!result) {
+			ctx.ui.notify("WakaTime setup cancelled, nothing was changed", "info");
+			return;
+		}
+
+		// Switching back to wakatime.com has to replace a self-hosted api_url
+		const apiUrl = result.apiUrl ?? (isCustomServer(current.api_url) ? DEFAULT_API_URL : undefined);
+		let vaultCmd: string | undefined;
+		if (result.storage && "keyring" in result.storage) {
+			try {
+				vaultCmd = await storeInKeyring(result.storage.keyring, result.apiKey);
+			} catch (error) {
+				ctx.ui.notify(`Failed to store the API key: ${error instanceof Error ? error.message : error}`, "error");
+				return;
+			}
+		} else if (result.storage) {
+			vaultCmd = result.storage.vaultCmd;
+		}
+		if (!saveApiKey(vaultCmd ? { vaultCmd } : result.apiKey, apiUrl, configFile)) {
+			ctx.ui.notify(`Failed to save API key to ${configFile}`, "error");
+			return;
+		}
+		// Read the new key the next time the HTTP transport needs it
+		vaultKeysLoaded = undefined;
+
+		const settingsPath = getGlobalSettingsPath();
+		for (const [key, value] of Object.entries(result.settings)) {
+			try {
+				writeSettingsValue(settingsPath, key as keyof WakaTimeConfig, value);
+				delete sessionValues[key as keyof WakaTimeConfig];
+			} catch (error) {
+				ctx.ui.notify(`Failed to save settings: ${error instanceof Error ? error.message : error}`, "error");
+				return;
+			}
+		}
+		loadConfig(ctx);
+		updateStatusBar(ctx);
+		logger.info("Setup wizard saved settings", { apiUrl: result.apiUrl, settings: result.settings });
+
+		const changed = Object.keys(result.settings);
+		ctx.ui.notify(
+			`WakaTime configured!${activeProfile ? `\nProfile: ${activeProfile.name} (${configFile})` : ""}` +
+			(result.apiUrl ? `\nServer: ${result.apiUrl}` : "") +
+			(vaultCmd ? `\nAPI key read with: ${vaultCmd}` : "") +
+			(changed.length > 0 ? `\nUpdated ${changed.join(", ")} in ${settingsPath}` : ""),
+			"info"
+		);
+
+		if (config.transport === "cli" && !cliAvailable &&
+			(await ctx.ui.confirm("wakatime-cli not found", `Install it to ${config.cliPath} now?`))) {
+			await installCli((message, type) => ctx.ui.notify(message, type));
+			cliAvailable = fs.existsSync(config.cliPath);
+		}
+
+		// Send heartbeats queued while no key was configured
+		void replayOfflineQueue();
+	}
+
+	// Register command to setup WakaTime API key
+	pi.registerCommand("wakatime-setup", {
+		description: "Set up WakaTime interactively, or directly: /wakatime-setup [<api_key> [api_url]]",
+		handler: async (args, ctx) => {
+			if (!ctx.hasUI) return;
+
+			const [apiKey, apiUrl] = args.trim().split(/\s+/).filter(Boolean);
+
+			// Without arguments, ask for everything so the key stays out of command history
+			if (!apiKey) {
+				await runWizard(ctx);
+				return;
+			}
+
+			// Validate server URL
+			if (apiUrl && !isValidApiUrl(apiUrl)) {
+				ctx.ui.notify(`Invalid API URL: ${apiUrl}\n\nExpected an http(s) URL, e.g. https://wakapi.example.com/api`, "error");
+				return;
+			}
+
+			// Validate API key format (relaxed for self-hosted servers)
+			const { configFile = getWakaTimeConfigPath(), apiUrl: profileUrl } = activeTarget();
+			const customServer = isCustomServer(apiUrl || profileUrl || readWakaTimeSettings(configFile).api_url);
+			if (!isValidApiKey(apiKey, customServer)) {
 				ctx.ui.notify(
 					"Invalid API key format.\n\n" +
 					"WakaTime API keys look like:\n" +
 					"  waka_xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx\n" +
 					"  or: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx\n\n" +
-					"Get your key from: https://wakatime.com/settings/api-key",
+					"Get your key from: https://wakatime.com/settings/api-key\n" +
+					"Using a self-hosted server? Pass its URL: /wakatime-setup <api_key> <api_url>",
 					"error"
 				);
 				return;
 			}
 
-			// Save API key
-			if (saveApiKey(apiKey)) {
-				ctx.ui.notify("WakaTime API key configured successfully!", "info");
-				// Re-enable tracking
-				config.enabled = true;
+			// Save API key and server
+			if (saveApiKey(apiKey, apiUrl, configFile)) {
+				ctx.ui.notify(
+					`WakaTime API key configured successfully!${activeProfile ? `\nProfile: ${activeProfile.name} (${configFile})` : ""}` +
+					(apiUrl ? `\nServer: ${apiUrl}` : ""),
+					"info"
+				);
+				// Send heartbeats queued while no key was configured
+				void replayOfflineQueue();
+			} else {
+				ctx.ui.notify(`Failed to save API key to ${configFile}`, "error");
+			}
+		},
+	});
+
+	// Register command to view and change settings
+	pi.registerCommand("wakatime-config", {
+		description: "Get or change settings: get [key] | set <key> <value> [--global|--project] | unset <key> [--global|--project]",
+		handler: async (args, ctx) => {
+			const report = (message: string, type: "info" | "warning" | "error" = "info") => {
+				if (ctx.hasUI) {
+					ctx.ui.notify(message, type);
+				}
+			};
+			const usage =
+				"Usage: /wakatime-config get [key]\n" +
+				"       /wakatime-config set <key> <value> [--global|--project]\n" +
+				"       /wakatime-config unset <key> [--global|--project]\n" +
+				"Without --global or --project, changes only apply to this session.";
+
+			const tokens = args.trim().split(/\s+/).filter(Boolean);
+			const scope: SettingsScope | undefined = tokens.includes("--global")
+				? "global"
+				: tokens.includes("--project")
+					? "project"
+					: undefined;
+			const [action = "get", rawKey, ...rest] = tokens.filter((token) => token !== "--global" && token !== "--project");
+			const describe = (key: keyof WakaTimeConfig) =>
+				`${key}: ${JSON.stringify(config[key])} [${configSources?.[key] ?? "default"}]`;
+
+			if (action === "get" && !rawKey) {
+				report((Object.keys(CONFIG_SCHEMA) as (keyof WakaTimeConfig)[]).map(describe).join("\n"));
+				return;
+			}
+
+			if (!["get", "set", "unset"].includes(action) || !rawKey) {
+				report(usage, "error");
+				return;
+			}
+
+			const key = resolveConfigKey(rawKey);
+			if (!key) {
+				report(`Unknown setting "${rawKey}". Known settings: ${Object.keys(CONFIG_SCHEMA).join(", ")}`, "error");
+				return;
+			}
+
+			if (action === "get") {
+				report(describe(key));
+				return;
+			}
+
+			let value: unknown;
+			if (action === "set") {
+				if (rest.length === 0) {
+					report(usage, "error");
+					return;
+				}
+				const result = validateConfigValue(key, parseConfigString(key, rest.join(" ")));
+				if (!result.ok) {
+					report(result.error, "error");
+					return;
+				}
+				value = result.value;
+			}
+
+			if (scope === "project" && PROJECT_FORBIDDEN_KEYS.includes(key)) {
+				report(`"${key}" can't be set in project settings`, "error");
+				return;
+			}
+			if (scope === "project" && PROJECT_ENABLE_ONLY_KEYS.includes(key) && value === false) {
+				report(`"${key}" can only be turned on in project settings`, "error");
+				return;
+			}
+
+			let savedTo: string | undefined;
+			if (scope) {
+				savedTo = scope === "global" ? getGlobalSettingsPath() : getProjectSettingsPath(ctx.cwd);
+				try {
+					writeSettingsValue(savedTo, key, value);
+				} catch (error) {
+					report(`Failed to save setting: ${error instanceof Error ? error.message : error}`, "error");
+					return;
+				}
+				delete sessionValues[key];
+			} else if (value === undefined) {
+				delete sessionValues[key];
 			} else {
-				ctx.ui.notify("Failed to save API key to ~/.wakatime.cfg", "error");
+				(sessionValues as Record<string, unknown>)[key] = value;
+			}
+
+			// Re-resolve everything that depends on settings (CLI path, project resolver, ...)
+			loadConfig(ctx);
+			updateStatusBar(ctx);
+
+			const lines = [describe(key)];
+			if (savedTo) {
+				lines.push(`Saved to ${savedTo}`);
+			}
+			if (scope && action === "set" && configSources && configSources[key] !== scope) {
+				const layer = configSources[key];
+				lines.push(`Note: overridden by ${layer === "env" ? `the ${envVarName(key)} environment variable` : `${layer} settings`}`);
+			}
+			if ((key === "cliPath" || key === "transport") && config.transport === "cli" && !cliAvailable) {
+				lines.push(`Warning: wakatime-cli not found at ${config.cliPath}`);
+			}
+			report(lines.join("\n"));
+		},
+	});
+
+	// Register command to show this session's activity report
+	pi.registerCommand("wakatime-report", {
+		description: "Show this session's activity report: /wakatime-report [--markdown|--json]",
+		handler: async (args, ctx) => {
+			if (!ctx.hasUI) return;
+
+			const format = args.includes("--json") ? "json" : args.includes("--markdown") ? "markdown" : undefined;
+			const lines = [formatReport(buildSessionReport(), ctx.cwd)];
+			if (format) {
+				const filePath = saveSessionReport(format, ctx.cwd);
+				lines.push("", filePath ? `Saved to ${filePath}` : `Failed to write to ${config.sessionReportDir}, see /wakatime-log`);
+			}
+			ctx.ui.notify(lines.join("\n"), "info");
+		},
+	});
+
+	// Register command to show local stats from the ledger
+	pi.registerCommand("wakatime-stats", {
+		description: "Show local stats by project, language, model and category: /wakatime-stats [today|week|month|<from>..<to>]",
+		handler: async (args, ctx) => {
+			if (!ctx.hasUI) return;
+
+			const range = parseDateRange(args);
+			if ("error" in range) {
+				ctx.ui.notify(range.error, "error");
+				return;
+			}
+
+			const stats = aggregateLedger(ledger.read(range));
+			if (stats.entries === 0) {
+				ctx.ui.notify(`No activity in the local ledger for ${range.label}`, "info");
+				return;
+			}
+
+			const titles: Record<string, string> = { project: "Projects", language: "Languages", model: "Models", category: "Categories" };
+			const lines = [`WakaTime stats for ${range.label} (local ledger)`, `Total: ${formatDuration(stats.totalSeconds)} (${stats.entries} heartbeats)`];
+			for (const dimension of STATS_DIMENSIONS) {
+				lines.push("", `${titles[dimension]}:`);
+				for (const group of stats.groups[dimension]) {
+					const share = stats.totalSeconds > 0 ? Math.round((group.seconds / stats.totalSeconds) * 100) : 0;
+					lines.push(`  ${group.name}: ${formatDuration(group.seconds)} (${share}%)`);
+				}
+			}
+			ctx.ui.notify(lines.join("\n"), "info");
+		},
+	});
+
+	// Register command to show budget usage
+	pi.registerCommand("wakatime-budget", {
+		description: "Show how much of each daily or weekly budget is used",
+		handler: async (_args, ctx) => {
+			if (!ctx.hasUI) return;
+
+			if (config.budgets.length === 0) {
+				ctx.ui.notify(
+					'No budgets configured. Add them to settings, e.g.\n' +
+					'  "budgets": [{ "project": "my-app", "period": "day", "minutes": 120 }]',
+					"info"
+				);
+				return;
+			}
+			if (!config.ledger) {
+				ctx.ui.notify("Budgets are totaled from the local ledger, which is off (ledger = false)", "warning");
+				return;
+			}
+
+			const lines = [`WakaTime budgets (local ledger, budgetAction: ${config.budgetAction}):`];
+			for (const status of budgetMonitor.getStatus()) {
+				const icon = status.percent >= 100 ? "❌" : status.percent >= 80 ? "⚠" : "✓";
+				lines.push(
+					`${icon} ${status.label}: ${formatDuration(status.seconds)} of ${formatDuration(status.limitSeconds)} (${status.percent}%)`
+				);
+			}
+			ctx.ui.notify(lines.join("\n"), "info");
+		},
+	});
+
+	// Register command to export the local ledger
+	pi.registerCommand("wakatime-export", {
+		description: "Export the local ledger: /wakatime-export [csv|json] [today|week|month|<from>..<to>] [--out <file>]",
+		handler: async (args, ctx) => {
+			const report = (message: string, type: "info" | "error") => ctx.hasUI && ctx.ui.notify(message, type);
+
+			const tokens = args.trim().split(/\s+/).filter(Boolean);
+			const outIndex = tokens.indexOf("--out");
+			const out = outIndex >= 0 ? tokens.splice(outIndex, 2)[1] : undefined;
+			if (outIndex >= 0 && !out) {
+				report("Usage: /wakatime-export [csv|json] [range] [--out <file>]", "error");
+				return;
+			}
+			const format = tokens[0] === "csv" || tokens[0] === "json" ? tokens.shift()! : "csv";
+			const range = parseDateRange(tokens.join(" ") || "month");
+			if ("error" in range) {
+				report(range.error, "error");
+				return;
+			}
+
+			const entries = ledger.read(range);
+			const filePath = out
+				? path.resolve(ctx.cwd, expandHome(out))
+				: path.join(os.homedir(), ".pi", "agent", "wakatime-exports", `wakatime-${range.label.replace(/\W+/g, "-")}.${format}`);
+			const content = format === "json"
+				? JSON.stringify({
+					range: { start: new Date(range.start).toISOString(), end: new Date(range.end).toISOString() },
+					totals: aggregateLedger(entries),
+					entries,
+				}, null, 2) + "\n"
+				: toCsv(entries);
+			try {
+				fs.mkdirSync(path.dirname(filePath), { recursive: true });
+				fs.writeFileSync(filePath, content);
+			} catch (error) {
+				report(`Failed to export: ${error instanceof Error ? error.message : error}`, "error");
+				return;
 			}
+			report(`Exported ${entries.length} heartbeats for ${range.label} to ${filePath}`, "info");
 		},
 	});
 
@@ -787,7 +1528,7 @@ export default function (pi: ExtensionAPI) {
 	pi.registerCommand("wakatime-toggle", {
 		description: "Toggle WakaTime tracking on/off",
 		handler: async (_args, ctx) => {
-			config.enabled = !config.enabled;
+			setTrackingEnabled(!config.enabled);
 
 			if (ctx.hasUI) {
 				ctx.ui.notify(`WakaTime tracking ${config.enabled ? "enabled" : "disabled"}`, "info");
@@ -0,0 +1,137 @@
+/**
+ * Agent working time and keepalive heartbeats.
+ *
+ * pi's agent_start/agent_end events bracket the agent's work on a prompt.
+ * While it works, a keepalive callback fires every KEEPALIVE_INTERVAL_MS so
+ * long turns without file tools don't look idle to WakaTime, unless the
+ * agent has shown no activity (streamed output, turns, tool calls) for
+ * IDLE_TIMEOUT_MS, e.g. because it's blocked on a dialog. A running tool,
+ * such as a long test suite, counts as activity. Time between agent_end and
+ * the next agent_start is counted as waiting for the user, up to the same
+ * timeout.
+ */
+
+import { IDLE_TIMEOUT_SECONDS } from "./model-stats";
+
+export interface ActivityTrackerOptions {
+	sendKeepalive: () => void;
+	keepaliveIntervalMs?: number;
+	idleTimeoutMs?: number;
+}
+
+export interface ActivityTotals {
+	agentSeconds: number;
+	waitingSeconds: number;
+	working: boolean;
+}
+
+export interface ActivityTracker {
+	agentStart(now?: number): void;
+	agentEnd(now?: number): void;
+	// Record agent activity (streamed output, turns, tool calls) while it works
+	activity(now?: number): void;
+	toolStart(now?: number): void;
+	toolEnd(now?: number): void;
+	getTotals(): ActivityTotals;
+	reset(): void;
+	stop(): void;
+}
+
+// Just over the heartbeat queue's two-minute dedupe window
+const KEEPALIVE_INTERVAL_MS = 2 * 60 * 1000 + 1000;
+const IDLE_TIMEOUT_MS = IDLE_TIMEOUT_SECONDS * 1000;
+
+export function createActivityTracker(options: ActivityTrackerOptions): ActivityTracker {
+	const keepaliveIntervalMs = options.keepaliveIntervalMs ?? KEEPALIVE_INTERVAL_MS;
+	const idleTimeoutMs = options.idleTimeoutMs ?? IDLE_TIMEOUT_MS;
+
+	let agentMs = 0;
+	let waitingMs = 0;
+	// Last agent activity while working, undefined while waiting
+	let lastActivity: number | undefined;
+	// When the agent last finished, undefined while working or before the first prompt
+	let waitingSince: number | undefined;
+	let timer: ReturnType<typeof setInterval> | undefined;
+	let runningTools = 0;
+
+	function activity(now = Date.now()) {
+		if (lastActivity === undefined) {
+			return;
+		}
+		const gap = now - lastActivity;
+		if (gap > 0 && gap <= idleTimeoutMs) {
+			agentMs += gap;
+		}
+		lastActivity = now;
+	}
+
+	function stopTimer() {
+		if (timer) {
+			clearInterval(timer);
+			timer = undefined;
+		}
+	}
+
+	return {
+		agentStart(now = Date.now()) {
+			if (waitingSince !== undefined) {
+				const gap = now - waitingSince;
+				if (gap > 0 && gap <= idleTimeoutMs) {
+					waitingMs += gap;
+				}
+				waitingSince = undefined;
+			}
+			lastActivity = now;
+
+			stopTimer();
+			timer = setInterval(() => {
+				if (runningTools > 0) {
+					activity();
+				}
+				if (lastActivity !== undefined && Date.now() - lastActivity <= idleTimeoutMs) {
+					options.sendKeepalive();
+				}
+			}, keepaliveIntervalMs);
+			timer.unref?.();
+		},
+
+		agentEnd(now = Date.now()) {
+			activity(now);
+			lastActivity = undefined;
+			waitingSince = now;
+			runningTools = 0;
+			stopTimer();
+		},
+
+		activity,
+
+		toolStart(now = Date.now()) {
+			activity(now);
+			runningTools++;
+		},
+
+		toolEnd(now = Date.now()) {
+			activity(now);
+			runningTools = Math.max(0, runningTools - 1);
+		},
+
+		getTotals() {
+			return {
+				agentSeconds: Math.round(agentMs / 1000),
+				waitingSeconds: Math.round(waitingMs / 1000),
+				working: lastActivity !== undefined,
+			};
+		},
+
+		reset() {
+			stopTimer();
+			agentMs = 0;
+			waitingMs = 0;
+			lastActivity = undefined;
+			waitingSince = undefined;
+			runningTools = 0;
+		},
+
+		stop: stopTimer,
+	};
+}
@@ -0,0 +1,183 @@
+/**
+ * Bash tool activity detection.
+ *
+ * The bash tool gives no structured information about the files it touches,
+ * so modifications are found by comparing mtime snapshots of the project
+ * taken before and after the command runs. The command itself is inspected
+ * to pick a WakaTime category (tests, builds, debugging) and to find files
+ * it references directly.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+
+export interface MtimeSnapshot {
+	root: string;
+	files: Map<string, number>;
+	truncated: boolean;
+}
+
+// Maximum number of files recorded per snapshot
+const MAX_SNAPSHOT_FILES = 5000;
+
+// Maximum number of files taken from a single command line
+const MAX_COMMAND_FILES = 20;
+
+// Directories that are never walked (dependencies, VCS data, build output)
+const IGNORED_DIRS = new Set([
+	".git",
+	".hg",
+	".svn",
+	"node_modules",
+	"bower_components",
+	"vendor",
+	".venv",
+	"venv",
+	"__pycache__",
+	".mypy_cache",
+	".pytest_cache",
+	".tox",
+	"target",
+	"dist",
+	"build",
+	"out",
+	".next",
+	".nuxt",
+	".turbo",
+	".cache",
+	"coverage",
+	".gradle",
+	".idea",
+	".vscode",
+]);
+
+// Command patterns per WakaTime category, checked in order
+const COMMAND_CATEGORIES: [string, RegExp][] = [
+	[
+		"debugging",
+		/^(?:gdb|lldb|dlv|pdb|rr|valgrind)\b|^python[\d.]*\s+-m\s+pdb\b|^node\s+(?:.*\s)?--inspect(?:-brk)?\b/,
+	],
+	[
+		"running tests",
+		/^(?:(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test(?::\S+)?\b|(?:npx\s+|bunx\s+)?(?:jest|vitest|mocha|ava|tap|playwright\s+test|cypress\s+run)\b|(?:python[\d.]*\s+-m\s+)?(?:pytest|unittest|nose2?|tox)\b|go\s+test\b|cargo\s+(?:test|nextest)\b|(?:bundle\s+exec\s+)?(?:rspec|rake\s+test)\b|(?:vendor\/bin\/)?phpunit\b|ctest\b|(?:\.\/)?(?:mvnw?|gradlew?)\s+(?:.*\s)?(?:test|check|verify)\b|dotnet\s+test\b|mix\s+test\b|deno\s+test\b|bun\s+test\b|make\s+(?:test|check)\b)/,
+	],
+	[
+		"building",
+		/^(?:(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?(?:build|compile)(?::\S+)?\b|(?:npx\s+)?(?:tsc|webpack|rollup|esbuild|vite\s+build|next\s+build|parcel\s+build)\b|make\b|cmake\b|ninja\b|go\s+build\b|cargo\s+build\b|(?:\.\/)?(?:mvnw?|gradlew?)\s+(?:.*\s)?(?:build|package|compile|assemble|install)\b|dotnet\s+build\b|docker\s+(?:build|compose\s+build)\b|bazel\s+build\b|swift\s+build\b|mix\s+compile\b)/,
+	],
+];
+
+// Split a command line into simple commands on && || ; | and newlines
+function splitCommands(command: string): string[] {
+	return command
+		.split(/&&|\|\||[;|\n]/)
+		.map((part) => part.trim().replace(/^(?:[A-Za-z_][A-Za-z0-9_]*=\S*\s+)+/, ""))
+		.filter(Boolean);
+}
+
+// Pick a WakaTime category for a bash command, if it is a test, build or debug run
+export function classifyCommand(command: string): string | undefined {
+	const commands = splitCommands(command);
+	for (const [category, pattern] of COMMAND_CATEGORIES) {
+		if (commands.some((cmd) => pattern.test(cmd))) {
+			return category;
+		}
+	}
+	return undefined;
+}
+
+// Split a command line into words, honoring simple quoting
+function tokenize(command: string): string[] {
+	const tokens: string[] = [];
+	const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(command)) !== null) {
+		tokens.push(match[1] ?? match[2] ?? match[3]);
+	}
+	return tokens;
+}
+
+// Find existing files referenced directly in a command line
+export function extractFileArgs(command: string, cwd: string): string[] {
+	const files = new Set<string>();
+
+	for (const token of tokenize(command)) {
+		if (files.size >= MAX_COMMAND_FILES) {
+			break;
+		}
+		// Skip flags, redirections, globs and URLs
+		if (!token || /^[-<>&|]/.test(token) || /[*?$`]/.test(token) || token.includes("://")) {
+			continue;
+		}
+
+		const absolutePath = path.normalize(path.isAbsolute(token) ? token : path.resolve(cwd, token));
+		try {
+			if (fs.statSync(absolutePath).isFile()) {
+				files.add(absolutePath);
+			}
+		} catch {
+			// Not a file
+		}
+	}
+
+	return [...files];
+}
+
+// Record mtimes of files below root, skipping dependency and build directories.
+// The walk is asynchronous so large trees don't block the UI.
+export async function takeSnapshot(root: string): Promise<MtimeSnapshot> {
+	const snapshot: MtimeSnapshot = { root, files: new Map(), truncated: false };
+	const pending = [root];
+
+	while (pending.length > 0) {
+		const dir = pending.pop()!;
+		let entries: fs.Dirent[];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			continue;
+		}
+
+		const files: string[] = [];
+		for (const entry of entries) {
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (!IGNORED_DIRS.has(entry.name)) {
+					pending.push(fullPath);
+				}
+			} else if (entry.isFile()) {
+				files.push(fullPath);
+			}
+		}
+
+		if (snapshot.files.size + files.length > MAX_SNAPSHOT_FILES) {
+			files.length = MAX_SNAPSHOT_FILES - snapshot.files.size;
+			snapshot.truncated = true;
+		}
+		const stats = await Promise.all(files.map((file) => fs.promises.stat(file).catch(() => undefined)));
+		files.forEach((file, i) => {
+			// Undefined if the file vanished while walking
+			if (stats[i]) {
+				snapshot.files.set(file, stats[i].mtimeMs);
+			}
+		});
+		if (snapshot.truncated) {
+			return snapshot;
+		}
+	}
+
+	return snapshot;
+}
+
+// Files created or modified between two snapshots
+export function diffSnapshots(before: MtimeSnapshot, after: MtimeSnapshot): string[] {
+	const changed: string[] = [];
+	for (const [file, mtime] of after.files) {
+		const previous = before.files.get(file);
+		// A truncated "before" snapshot can't tell new files from unrecorded ones
+		if (previous === undefined ? !before.truncated : previous !== mtime) {
+			changed.push(file);
+		}
+	}
+	return changed;
+}
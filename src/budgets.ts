@@ -0,0 +1,177 @@
+/**
+ * Daily and weekly time budgets per project and category.
+ *
+ * Budgets are checked every CHECK_INTERVAL_MS against the local ledger, the
+ * only place that keeps time per project and category. Each threshold in
+ * THRESHOLDS is reported once per budget and period; a session that starts
+ * past a threshold reports only the highest one reached.
+ */
+
+import type { DateRange, TimedEntry } from "./ledger";
+
+export interface Budget {
+	// Unset to count every project or category
+	project?: string;
+	category?: string;
+	period?: "day" | "week";
+	minutes: number;
+}
+
+export interface BudgetStatus {
+	budget: Budget;
+	// e.g. "pi-wakatime (coding) today"
+	label: string;
+	seconds: number;
+	limitSeconds: number;
+	percent: number;
+}
+
+export interface BudgetAlert extends BudgetStatus {
+	threshold: number;
+}
+
+export interface BudgetMonitorOptions {
+	readLedger: (range: DateRange) => TimedEntry[];
+	getBudgets: () => Budget[];
+	// Name a project is stored under in the ledger, e.g. hashed with hideProjectNames
+	projectName?: (name: string) => string;
+	checkIntervalMs?: number;
+}
+
+export interface BudgetMonitor {
+	// Check now and every interval, reporting newly reached thresholds
+	start(onAlert: (alert: BudgetAlert) => void): void;
+	stop(): void;
+	check(now?: Date): void;
+	getStatus(now?: Date): BudgetStatus[];
+	// Forget reported thresholds, e.g. on session start
+	reset(): void;
+}
+
+export const THRESHOLDS = [80, 100];
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const FIELDS = ["project", "category", "period", "minutes"];
+
+// Validate the budgets setting, returning an error for the first bad budget
+export function validateBudgets(value: unknown): string | undefined {
+	if (!Array.isArray(value)) {
+		return `"budgets" must be a list of budgets, got ${JSON.stringify(value)}`;
+	}
+	for (const [index, budget] of value.entries()) {
+		const name = `Budget ${index + 1}`;
+		if (typeof budget !== "object" || budget === null || Array.isArray(budget)) {
+			return `${name} must be an object`;
+		}
+		const unknown = Object.keys(budget).find((field) => !FIELDS.includes(field));
+		if (unknown) {
+			return `${name}: unknown field "${unknown}" (expected ${FIELDS.join(", ")})`;
+		}
+		if (typeof budget.minutes !== "number" || !(budget.minutes > 0)) {
+			return `${name}: "minutes" must be a positive number`;
+		}
+		if (budget.period !== undefined && budget.period !== "day" && budget.period !== "week") {
+			return `${name}: "period" must be "day" or "week"`;
+		}
+		for (const field of ["project", "category"]) {
+			if (budget[field] !== undefined && (typeof budget[field] !== "string" || !budget[field].trim())) {
+				return `${name}: "${field}" must be a non-empty string`;
+			}
+		}
+	}
+	return undefined;
+}
+
+// Today, or the current week starting on Monday
+export function budgetRange(period: Budget["period"], now = new Date()): DateRange {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	if (period === "week") {
+		const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+		const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+		return { start: start.getTime(), end: end.getTime(), label: "this week" };
+	}
+	const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+	return { start: today.getTime(), end: end.getTime(), label: "today" };
+}
+
+function budgetLabel(budget: Budget, range: DateRange): string {
+	const scope = budget.project ?? "all projects";
+	return `${scope}${budget.category ? ` (${budget.category})` : ""} ${range.label}`;
+}
+
+export function createBudgetMonitor(options: BudgetMonitorOptions): BudgetMonitor {
+	const checkIntervalMs = options.checkIntervalMs ?? CHECK_INTERVAL_MS;
+	const projectName = options.projectName ?? ((name: string) => name);
+
+	let timer: ReturnType<typeof setInterval> | undefined;
+	let onAlert: ((alert: BudgetAlert) => void) | undefined;
+	// Highest threshold reported per budget and period
+	const reported = new Map<string, number>();
+
+	function getStatus(now = new Date()): BudgetStatus[] {
+		// One ledger read per period
+		const entries = new Map<string, { range: DateRange; entries: TimedEntry[] }>();
+		return options.getBudgets().map((budget) => {
+			const period = budget.period ?? "day";
+			if (!entries.has(period)) {
+				const range = budgetRange(period, now);
+				entries.set(period, { range, entries: options.readLedger(range) });
+			}
+			const { range, entries: periodEntries } = entries.get(period)!;
+
+			const project = budget.project ? projectName(budget.project) : undefined;
+			const seconds = periodEntries
+				.filter((entry) => (!project || entry.project === project) && (!budget.category || entry.category === budget.category))
+				.reduce((sum, entry) => sum + entry.seconds, 0);
+			const limitSeconds = budget.minutes * 60;
+			return {
+				budget,
+				label: budgetLabel(budget, range),
+				seconds,
+				limitSeconds,
+				percent: Math.floor((seconds / limitSeconds) * 100),
+			};
+		});
+	}
+
+	function check(now = new Date()) {
+		for (const status of getStatus(now)) {
+			const threshold = [...THRESHOLDS].reverse().find((value) => status.percent >= value);
+			if (threshold === undefined) {
+				continue;
+			}
+			const key = `${JSON.stringify(status.budget)}@${budgetRange(status.budget.period, now).start}`;
+			if ((reported.get(key) ?? 0) < threshold) {
+				reported.set(key, threshold);
+				onAlert?.({ ...status, threshold });
+			}
+		}
+	}
+
+	return {
+		start(callback) {
+			onAlert = callback;
+			if (!timer) {
+				timer = setInterval(() => check(), checkIntervalMs);
+				timer.unref?.();
+			}
+			check();
+		},
+
+		stop() {
+			if (timer) {
+				clearInterval(timer);
+				timer = undefined;
+			}
+			onAlert = undefined;
+		},
+
+		check,
+		getStatus,
+
+		reset() {
+			reported.clear();
+		},
+	};
+}
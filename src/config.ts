@@ -0,0 +1,539 @@
+/**
+ * Layered extension configuration.
+ *
+ * Values are resolved from, in increasing precedence:
+ * - Built-in defaults
+ * - Global settings: "wakatime" in ~/.pi/agent/settings.json
+ * - Project settings: "wakatime" in .pi/settings.json, or a .wakatime.json file,
+ *   in the nearest directory (walking up from cwd) that has either
+ * - Environment variables: PI_WAKATIME_<KEY>, e.g. PI_WAKATIME_TRACK_FILES=false
+ *
+ * Changes made at runtime are recorded as the "session" layer.
+ *
+ * Every layer is validated against CONFIG_SCHEMA: renamed keys are migrated,
+ * unknown keys and invalid values are reported as problems and skipped, so a
+ * typo never silently falls back to defaults.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { validateBudgets, type Budget } from "./budgets";
+import { findGitRoot } from "./git";
+import { validateProfiles, type WakaTimeProfile } from "./profiles";
+
+export interface WakaTimeConfig {
+	enabled: boolean;
+	trackFiles: boolean;
+	trackBash: boolean;
+	trackSessions: boolean;
+	category: string;
+	cliPath: string;
+	cliVersion: string;
+	cliMirrorUrl: string;
+	cliUpdates: "notify" | "auto" | "off";
+	workspaceProjects: boolean;
+	include: string[];
+	exclude: string[];
+	hideFileNames: boolean;
+	hideProjectNames: boolean;
+	modelEncoding: "plugin" | "hostname" | "none";
+	transport: "cli" | "http";
+	logLevel: "debug" | "info" | "warn" | "error" | "off";
+	statusBar: boolean;
+	sessionReport: boolean;
+	sessionReportFormat: "off" | "markdown" | "json";
+	sessionReportDir: string;
+	ledger: boolean;
+	keepalive: boolean;
+	profiles: Record<string, WakaTimeProfile>;
+	profile: string;
+	budgets: Budget[];
+	budgetAction: "notify" | "pause" | "confirm";
+}
+
+export type ConfigLayer = "default" | "global" | "project" | "env" | "session";
+
+export type ConfigSources = Record<keyof WakaTimeConfig, ConfigLayer>;
+
+export type SettingsScope = "global" | "project";
+
+export interface ConfigProblem {
+	// Settings file or environment variable the problem came from
+	source: string;
+	message: string;
+}
+
+export interface LoadedConfig {
+	config: WakaTimeConfig;
+	sources: ConfigSources;
+	globalPath: string;
+	projectPaths: string[];
+	problems: ConfigProblem[];
+}
+
+type FieldSchema =
+	| { type: "boolean" }
+	| { type: "string"; nonEmpty?: boolean; pattern?: RegExp; description?: string }
+	| { type: "string[]" }
+	| { type: "enum"; values: readonly string[] }
+	| { type: "profiles" }
+	| { type: "budgets" };
+
+// Expected type of every setting
+export const CONFIG_SCHEMA: Record<keyof WakaTimeConfig, FieldSchema> = {
+	enabled: { type: "boolean" },
+	trackFiles: { type: "boolean" },
+	trackBash: { type: "boolean" },
+	trackSessions: { type: "boolean" },
+	category: { type: "string", nonEmpty: true },
+	cliPath: { type: "string", nonEmpty: true },
+	cliVersion: { type: "string", pattern: /^(latest|v?\d+\.\d+\.\d+\S*)$/, description: '"latest" or a version such as "v1.90.0"' },
+	cliMirrorUrl: { type: "string", pattern: /^(https?:\/\/\S+)?$/, description: "an http(s) URL, or empty for GitHub" },
+	cliUpdates: { type: "enum", values: ["notify", "auto", "off"] },
+	workspaceProjects: { type: "boolean" },
+	include: { type: "string[]" },
+	exclude: { type: "string[]" },
+	hideFileNames: { type: "boolean" },
+	hideProjectNames: { type: "boolean" },
+	modelEncoding: { type: "enum", values: ["plugin", "hostname", "none"] },
+	transport: { type: "enum", values: ["cli", "http"] },
+	logLevel: { type: "enum", values: ["debug", "info", "warn", "error", "off"] },
+	statusBar: { type: "boolean" },
+	sessionReport: { type: "boolean" },
+	sessionReportFormat: { type: "enum", values: ["off", "markdown", "json"] },
+	sessionReportDir: { type: "string", nonEmpty: true },
+	ledger: { type: "boolean" },
+	keepalive: { type: "boolean" },
+	profiles: { type: "profiles" },
+	profile: { type: "string" },
+	budgets: { type: "budgets" },
+	budgetAction: { type: "enum", values: ["notify", "pause", "confirm"] },
+};
+
+// Old or alternative key names and the settings they map to
+const RENAMED_KEYS: Record<string, keyof WakaTimeConfig> = {
+	ignore: "exclude",
+	ignorePatterns: "exclude",
+	hideFilenames: "hideFileNames",
+	hideProjectnames: "hideProjectNames",
+	trackCommands: "trackBash",
+	wakatimeCliPath: "cliPath",
+};
+
+export const DEFAULT_CONFIG: WakaTimeConfig = {
+	enabled: true,
+	trackFiles: true,
+	trackBash: true,
+	trackSessions: false, // Disabled by default - session heartbeats use cwd which pollutes file stats
+	category: "ai coding",
+	cliPath: path.join(os.homedir(), ".wakatime", "wakatime-cli"),
+	cliVersion: "latest",
+	cliMirrorUrl: "",
+	cliUpdates: "notify",
+	workspaceProjects: false,
+	include: [],
+	exclude: [],
+	hideFileNames: false,
+	hideProjectNames: false,
+	modelEncoding: "plugin",
+	transport: "cli",
+	logLevel: "info",
+	statusBar: true,
+	sessionReport: true,
+	sessionReportFormat: "off",
+	sessionReportDir: path.join("~", ".pi", "agent", "wakatime-reports"),
+	ledger: true,
+	keepalive: true,
+	profiles: {},
+	// Empty to pick a profile by path or remote
+	profile: "",
+	budgets: [],
+	budgetAction: "notify",
+};
+
+// Keys a cloned repository must not control, since they choose what gets executed, where files are written
+// or where activity is sent
+export const PROJECT_FORBIDDEN_KEYS: (keyof WakaTimeConfig)[] = [
+	"cliPath",
+	"cliMirrorUrl",
+	"sessionReportDir",
+	"profiles",
+	"profile",
+];
+
+// Privacy settings a project can turn on, but not off
+export const PROJECT_ENABLE_ONLY_KEYS: (keyof WakaTimeConfig)[] = ["hideFileNames", "hideProjectNames"];
+
+// Path of the global pi settings file
+export function getGlobalSettingsPath(): string {
+	return path.join(os.homedir(), ".pi", "agent", "settings.json");
+}
+
+// Read a JSON file, returning undefined if missing and reporting invalid JSON
+function readJson(filePath: string, problems: ConfigProblem[]): unknown {
+	let content: string;
+	try {
+		content = fs.readFileSync(filePath, "utf-8");
+	} catch {
+		return undefined;
+	}
+	try {
+		return JSON.parse(content);
+	} catch (error) {
+		problems.push({
+			source: filePath,
+			message: `Invalid JSON, file ignored: ${error instanceof Error ? error.message : error}`,
+		});
+		return undefined;
+	}
+}
+
+// The "wakatime" object of a pi settings file, checked by the caller
+function wakatimeSection(settings: unknown): unknown {
+	return settings && typeof settings === "object" && "wakatime" in settings ? settings.wakatime : undefined;
+}
+
+// Number of single-character edits between two strings
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+// Closest known key to a misspelled one, if any is close enough
+function suggestKey(key: string): string | undefined {
+	let best: string | undefined;
+	let bestDistance = 3;
+	for (const known of Object.keys(CONFIG_SCHEMA)) {
+		const distance = editDistance(key.toLowerCase(), known.toLowerCase());
+		if (distance < bestDistance) {
+			best = known;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+// Map a raw key to a setting, following renames and snake_case spellings
+export function resolveConfigKey(key: string): keyof WakaTimeConfig | undefined {
+	const camel = key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+	if (camel in CONFIG_SCHEMA) {
+		return camel as keyof WakaTimeConfig;
+	}
+	return RENAMED_KEYS[key] ?? RENAMED_KEYS[camel];
+}
+
+// Describe the expected type of a setting
+function describeSchema(schema: FieldSchema): string {
+	switch (schema.type) {
+		case "boolean":
+			return "true or false";
+		case "string":
+			return schema.description ?? (schema.nonEmpty ? "a non-empty string" : "a string");
+		case "string[]":
+			return "a list of strings";
+		case "enum":
+			return `one of ${schema.values.map((value) => `"${value}"`).join(", ")}`;
+		case "profiles":
+			return "an object of named profiles";
+		case "budgets":
+			return "a list of budgets";
+	}
+}
+
+// Validate a value for a setting, coercing old formats (e.g. a single glob instead of a list)
+export function validateConfigValue<K extends keyof WakaTimeConfig>(
+	key: K,
+	value: unknown
+): { ok: true; value: WakaTimeConfig[K] } | { ok: false; error: string } {
+	const schema = CONFIG_SCHEMA[key];
+	// The value has been checked against the key's schema
+	const valid = (checked: unknown) => ({ ok: true as const, value: checked as WakaTimeConfig[K] });
+	const invalid = { ok: false as const, error: `"${key}" must be ${describeSchema(schema)}, got ${JSON.stringify(value)}` };
+
+	switch (schema.type) {
+		case "boolean":
+			return typeof value === "boolean" ? valid(value) : invalid;
+		case "string":
+			if (typeof value !== "string" || (schema.nonEmpty && !value.trim()) || (schema.pattern && !schema.pattern.test(value))) {
+				return invalid;
+			}
+			return valid(value);
+		case "string[]":
+			if (typeof value === "string") {
+				return valid([value]);
+			}
+			if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+				return invalid;
+			}
+			return valid(value);
+		case "enum":
+			// modelEncoding used to be a boolean toggle
+			if (key === "modelEncoding" && typeof value === "boolean") {
+				return valid(value ? "plugin" : "none");
+			}
+			if (key === "transport" && value === "api") {
+				return valid("http");
+			}
+			return typeof value === "string" && schema.values.includes(value) ? valid(value) : invalid;
+		case "profiles": {
+			const error = validateProfiles(value);
+			return error ? { ok: false, error } : valid(value);
+		}
+		case "budgets": {
+			const error = validateBudgets(value);
+			return error ? { ok: false, error } : valid(value);
+		}
+	}
+}
+
+// Find project-level settings files, walking up from cwd
+export function findProjectSettings(
+	cwd: string,
+	problems: ConfigProblem[] = []
+): { files: { path: string; values: unknown }[]; paths: string[] } {
+	const globalPath = getGlobalSettingsPath();
+	let dir = cwd;
+
+	while (true) {
+		const piSettingsPath = path.join(dir, ".pi", "settings.json");
+		const wakatimeJsonPath = path.join(dir, ".wakatime.json");
+		const files: { path: string; values: unknown }[] = [];
+
+		// ~/.pi/agent/settings.json is the global layer, never a project one
+		if (piSettingsPath !== globalPath && fs.existsSync(piSettingsPath)) {
+			const settings = wakatimeSection(readJson(piSettingsPath, problems));
+			if (settings !== undefined) {
+				files.push({ path: piSettingsPath, values: settings });
+			}
+		}
+		if (fs.existsSync(wakatimeJsonPath)) {
+			const settings = readJson(wakatimeJsonPath, problems);
+			if (settings !== undefined) {
+				files.push({ path: wakatimeJsonPath, values: settings });
+			}
+		}
+
+		if (files.length > 0 || dir === path.dirname(dir)) {
+			return { files, paths: files.map((file) => file.path) };
+		}
+		dir = path.dirname(dir);
+	}
+}
+
+// Environment variable name for a config key (trackFiles -> PI_WAKATIME_TRACK_FILES)
+export function envVarName(key: string): string {
+	return `PI_WAKATIME_${key.replace(/([A-Z])/g, "_$1").toUpperCase()}`;
+}
+
+// Parse a string (environment variable or command argument) according to the setting's type
+export function parseConfigString(key: keyof WakaTimeConfig, raw: string): unknown {
+	const schema = CONFIG_SCHEMA[key];
+	let trimmed = raw.trim();
+	// Allow quoted values, e.g. "code reviewing"
+	if (/^".*"$/.test(trimmed)) {
+		try {
+			trimmed = JSON.parse(trimmed);
+		} catch {
+			// Keep the quotes
+		}
+	}
+	if (schema.type === "boolean") {
+		if (/^(1|true|yes|on)$/i.test(trimmed)) {
+			return true;
+		}
+		if (/^(0|false|no|off)$/i.test(trimmed)) {
+			return false;
+		}
+		return raw;
+	}
+	if (schema.type === "profiles" || schema.type === "budgets") {
+		try {
+			return JSON.parse(trimmed);
+		} catch {
+			return raw;
+		}
+	}
+	if (schema.type === "string[]") {
+		if (trimmed.startsWith("[")) {
+			try {
+				return JSON.parse(trimmed);
+			} catch {
+				return raw;
+			}
+		}
+		return trimmed
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+	return trimmed;
+}
+
+// Set a validated value on the config
+function setConfigValue<K extends keyof WakaTimeConfig>(config: WakaTimeConfig, key: K, value: WakaTimeConfig[K]) {
+	config[key] = value;
+}
+
+// Resolve the configuration for cwd from all layers, with values changed at runtime on top
+export function loadLayeredConfig(cwd: string, sessionValues: Partial<WakaTimeConfig> = {}): LoadedConfig {
+	const config: WakaTimeConfig = { ...DEFAULT_CONFIG };
+	const sources = Object.fromEntries(Object.keys(DEFAULT_CONFIG).map((key) => [key, "default"])) as ConfigSources;
+	const problems: ConfigProblem[] = [];
+
+	function apply(values: unknown, layer: ConfigLayer, source: string, forbidden: (keyof WakaTimeConfig)[] = []) {
+		if (values === undefined) {
+			return;
+		}
+		if (!values || typeof values !== "object" || Array.isArray(values)) {
+			problems.push({ source, message: "WakaTime settings must be an object, ignored" });
+			return;
+		}
+		// Names each setting was given by this layer, to catch a deprecated name next to the current one
+		const setAs = new Map<keyof WakaTimeConfig, string>();
+		for (const [rawKey, rawValue] of Object.entries(values)) {
+			const key = resolveConfigKey(rawKey);
+			if (!key) {
+				const suggestion = suggestKey(rawKey);
+				problems.push({
+					source,
+					message: `Unknown setting "${rawKey}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+				});
+				continue;
+			}
+			if (key !== rawKey) {
+				problems.push({ source, message: `"${rawKey}" is deprecated, use "${key}" instead` });
+			}
+			if (forbidden.includes(key)) {
+				problems.push({ source, message: `"${key}" can't be set at this level, ignored` });
+				continue;
+			}
+			const result = validateConfigValue(key, rawValue);
+			if (!result.ok) {
+				problems.push({ source, message: `${result.error}, using ${JSON.stringify(config[key])}` });
+				continue;
+			}
+			if (layer === "project" && PROJECT_ENABLE_ONLY_KEYS.includes(key) && result.value === false) {
+				problems.push({ source, message: `"${key}" can only be turned on at project level, ignored` });
+				continue;
+			}
+			const isGlobList = key === "include" || key === "exclude";
+			const earlier = setAs.get(key);
+			if (earlier !== undefined) {
+				if (isGlobList) {
+					problems.push({ source, message: `"${earlier}" and "${rawKey}" are both set, using the globs of both` });
+				} else if (rawKey !== key) {
+					problems.push({ source, message: `"${earlier}" and "${rawKey}" are both set, using "${earlier}"` });
+					continue;
+				} else {
+					problems.push({ source, message: `"${earlier}" and "${rawKey}" are both set, using "${rawKey}"` });
+				}
+			}
+			setAs.set(key, rawKey);
+			// A project adds include/exclude globs to the lists of lower layers instead of replacing them,
+			// and globs under a deprecated name are added to those under the current one
+			const lowerGlobs = isGlobList && (layer === "project" || earlier !== undefined) ? config[key] : undefined;
+			setConfigValue(config, key, result.value);
+			if (lowerGlobs && (key === "include" || key === "exclude")) {
+				config[key] = [...new Set([...lowerGlobs, ...config[key]])];
+			}
+			sources[key] = layer;
+		}
+	}
+
+	const globalPath = getGlobalSettingsPath();
+	apply(wakatimeSection(readJson(globalPath, problems)), "global", globalPath);
+
+	const project = findProjectSettings(cwd, problems);
+	for (const file of project.files) {
+		apply(file.values, "project", file.path, PROJECT_FORBIDDEN_KEYS);
+	}
+
+	// PI_WAKATIME_* environment variables
+	for (const key of Object.keys(CONFIG_SCHEMA) as (keyof WakaTimeConfig)[]) {
+		const name = envVarName(key);
+		const raw = process.env[name];
+		if (raw !== undefined) {
+			apply({ [key]: parseConfigString(key, raw) }, "env", name);
+		}
+	}
+
+	apply(sessionValues, "session", "session");
+
+	return { config, sources, globalPath, projectPaths: project.paths, problems };
+}
+
+// Settings file that project-level changes are written to
+export function getProjectSettingsPath(cwd: string): string {
+	const existing = findProjectSettings(cwd).paths;
+	if (existing.length > 0) {
+		// The last file has the highest precedence
+		return existing[existing.length - 1];
+	}
+	return path.join(findGitRoot(cwd) ?? cwd, ".pi", "settings.json");
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Set a setting in a settings file (or remove it when value is undefined), leaving everything else intact
+export function writeSettingsValue(filePath: string, key: keyof WakaTimeConfig, value: unknown): void {
+	let content = "";
+	try {
+		content = fs.readFileSync(filePath, "utf-8");
+	} catch {
+		// New file
+	}
+
+	// Refuse to overwrite a file we can't parse rather than lose its contents
+	let settings: Record<string, unknown> = {};
+	if (content.trim()) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(content);
+		} catch (error) {
+			throw new Error(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+		}
+		if (!isJsonObject(parsed)) {
+			throw new Error(`${filePath} does not contain a JSON object`);
+		}
+		settings = parsed;
+	}
+
+	// .wakatime.json holds the settings directly, settings.json under "wakatime"
+	const wrapped = path.basename(filePath) !== ".wakatime.json";
+	let target = settings;
+	if (wrapped) {
+		target = isJsonObject(settings.wakatime) ? settings.wakatime : {};
+		settings.wakatime = target;
+	}
+	if (value === undefined) {
+		delete target[key];
+		if (wrapped && Object.keys(target).length === 0) {
+			delete settings.wakatime;
+		}
+	} else {
+		target[key] = value;
+	}
+
+	// Keep the file's indentation
+	const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? "  ";
+
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	const tmpPath = `${filePath}.${process.pid}.tmp`;
+	fs.writeFileSync(tmpPath, JSON.stringify(settings, null, indent) + "\n");
+	fs.renameSync(tmpPath, filePath);
+}
+
+// Format a problem for display
+export function formatConfigProblem(problem: ConfigProblem): string {
+	return `${problem.source}: ${problem.message}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Line-level diff statistics for AI line change accounting.
+ *
+ * Uses the Myers algorithm to find the shortest edit script between two
+ * texts; only its length is needed, since insertions and deletions then
+ * follow from the difference in line counts.
+ */
+
+export interface LineDiff {
+	added: number;
+	removed: number;
+}
+
+export interface TextEdit {
+	oldText: string;
+	newText: string;
+}
+
+// Edit distance above which the exact diff is abandoned for an estimate
+const MAX_EDIT_DISTANCE = 4000;
+
+// Split content into lines, ignoring the final newline
+export function splitLines(content: string): string[] {
+	if (content === "") {
+		return [];
+	}
+	const lines = content.split(/\r?\n/);
+	if (lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines;
+}
+
+// Myers shortest edit script length, or -1 if it exceeds maxD
+function editDistance(a: string[], b: string[], maxD: number): number {
+	const n = a.length;
+	const m = b.length;
+	const offset = maxD + 1;
+	const v = new Int32Array(2 * offset + 1);
+
+	for (let d = 0; d <= maxD; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+				x = v[offset + k + 1];
+			} else {
+				x = v[offset + k - 1] + 1;
+			}
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				return d;
+			}
+		}
+	}
+	return -1;
+}
+
+// Estimate a diff by comparing line multisets (ignores moves)
+function estimateDiff(a: string[], b: string[]): LineDiff {
+	const counts = new Map<string, number>();
+	for (const line of a) {
+		counts.set(line, (counts.get(line) ?? 0) + 1);
+	}
+	let added = 0;
+	for (const line of b) {
+		const count = counts.get(line) ?? 0;
+		if (count > 0) {
+			counts.set(line, count - 1);
+		} else {
+			added++;
+		}
+	}
+	return { added, removed: a.length - (b.length - added) };
+}
+
+// Count lines added and removed between two versions of a text
+export function diffLines(before: string, after: string): LineDiff {
+	let a = splitLines(before);
+	let b = splitLines(after);
+
+	// Trim common prefix and suffix, which is most of the file for typical edits
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+	a = a.slice(start, endA);
+	b = b.slice(start, endB);
+
+	if (a.length === 0 || b.length === 0) {
+		return { added: b.length, removed: a.length };
+	}
+
+	const d = editDistance(a, b, Math.min(a.length + b.length, MAX_EDIT_DISTANCE));
+	if (d < 0) {
+		return estimateDiff(a, b);
+	}
+
+	// d = added + removed, and added - removed = b.length - a.length
+	const delta = b.length - a.length;
+	return { added: (d + delta) / 2, removed: (d - delta) / 2 };
+}
+
+// Count lines added and removed by a list of text replacements
+export function diffEdits(edits: TextEdit[]): LineDiff {
+	const total: LineDiff = { added: 0, removed: 0 };
+	for (const edit of edits) {
+		const diff = diffLines(edit.oldText, edit.newText);
+		total.added += diff.added;
+		total.removed += diff.removed;
+	}
+	return total;
+}
@@ -0,0 +1,39 @@
+/**
+ * Helpers shared by the modules that read local files: ~ expansion for
+ * configured paths and a JSONL reader that tolerates corrupt lines.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+
+// Expand a leading ~ (alone or followed by /) to the home directory
+export function expandHome(value: string): string {
+	return value.replace(/^~(?=$|\/)/, os.homedir());
+}
+
+// Read the entries of a JSONL file that pass isValid, skipping corrupt lines
+// (e.g. partial writes); a missing file has no entries
+export function readJsonl<T>(filePath: string, isValid: (entry: Partial<T> | null) => boolean): T[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(filePath, "utf-8");
+	} catch {
+		return [];
+	}
+
+	const entries: T[] = [];
+	for (const line of content.split("\n")) {
+		if (!line.trim()) {
+			continue;
+		}
+		try {
+			const entry: Partial<T> | null = JSON.parse(line);
+			if (isValid(entry)) {
+				entries.push(entry as T);
+			}
+		} catch {
+			// Corrupt line
+		}
+	}
+	return entries;
+}
@@ -0,0 +1,203 @@
+/**
+ * Git metadata for heartbeats.
+ *
+ * Resolves the git directory of a repository (including worktrees and
+ * submodules whose `.git` is a file with a relative `gitdir:`), and reads
+ * the current branch from HEAD. HEAD is re-read whenever its mtime changes,
+ * so branch switches made by the agent are picked up by the next heartbeat.
+ * A detached HEAD is reported as the tag pointing at it, or its short SHA.
+ * Remote URLs are read from the repository config for profile selection.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+
+interface HeadCacheEntry {
+	mtimeMs: number;
+	size: number;
+	branch?: string;
+}
+
+// Cached branch per git dir, invalidated when HEAD changes
+const headCache = new Map<string, HeadCacheEntry>();
+
+// Find the nearest directory containing a .git dir or file
+export function findGitRoot(startDir: string): string | null {
+	let dir = startDir;
+	while (dir !== path.dirname(dir)) {
+		if (fs.existsSync(path.join(dir, ".git"))) {
+			return dir;
+		}
+		dir = path.dirname(dir);
+	}
+	return null;
+}
+
+// Resolve the git dir of a repository root, following .git files
+export function resolveGitDir(gitRoot: string): string | null {
+	const gitPath = path.join(gitRoot, ".git");
+	try {
+		const stat = fs.statSync(gitPath);
+		if (stat.isDirectory()) {
+			return gitPath;
+		}
+		if (stat.isFile()) {
+			// Worktrees and submodules use a .git file, usually with a relative path
+			const content = fs.readFileSync(gitPath, "utf-8").trim();
+			if (content.startsWith("gitdir:")) {
+				return path.resolve(gitRoot, content.slice(7).trim());
+			}
+		}
+	} catch {
+		// Not a git repository
+	}
+	return null;
+}
+
+// Get the directory holding shared refs (differs from gitDir for worktrees)
+export function getCommonDir(gitDir: string): string {
+	try {
+		const commonDir = fs.readFileSync(path.join(gitDir, "commondir"), "utf-8").trim();
+		if (commonDir) {
+			return path.resolve(gitDir, commonDir);
+		}
+	} catch {
+		// Not a worktree
+	}
+	return gitDir;
+}
+
+// List loose tag refs as [name, sha] pairs
+function readLooseTags(dir: string, prefix = ""): [string, string][] {
+	const tags: [string, string][] = [];
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(dir, { withFileTypes: true });
+	} catch {
+		return tags;
+	}
+
+	for (const entry of entries) {
+		const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+		const fullPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			tags.push(...readLooseTags(fullPath, name));
+		} else if (entry.isFile()) {
+			try {
+				tags.push([name, fs.readFileSync(fullPath, "utf-8").trim()]);
+			} catch {
+				// Unreadable ref
+			}
+		}
+	}
+	return tags;
+}
+
+// Find a tag pointing at sha, checking loose and packed refs
+function findTagForCommit(commonDir: string, sha: string): string | undefined {
+	const matches = new Set<string>();
+
+	for (const [name, target] of readLooseTags(path.join(commonDir, "refs", "tags"))) {
+		if (target === sha) {
+			matches.add(name);
+		}
+	}
+
+	try {
+		const packed = fs.readFileSync(path.join(commonDir, "packed-refs"), "utf-8").split(/\r?\n/);
+		let lastTag: string | undefined;
+		for (const line of packed) {
+			if (line.startsWith("^")) {
+				// Peeled line: the commit an annotated tag points at
+				if (lastTag && line.slice(1).trim() === sha) {
+					matches.add(lastTag);
+				}
+				continue;
+			}
+			const [target, ref] = line.split(" ");
+			lastTag = ref?.startsWith("refs/tags/") ? ref.slice("refs/tags/".length) : undefined;
+			if (lastTag && target === sha) {
+				matches.add(lastTag);
+			}
+		}
+	} catch {
+		// No packed refs
+	}
+
+	return [...matches].sort()[0];
+}
+
+// Parse HEAD contents into a branch name, tag name or short SHA
+function parseHead(gitDir: string, head: string): string | undefined {
+	if (head.startsWith("ref:")) {
+		const ref = head.slice(4).trim();
+		return ref.startsWith("refs/heads/") ? ref.slice("refs/heads/".length) : ref;
+	}
+
+	if (/^[0-9a-f]{40,64}$/i.test(head)) {
+		// Detached HEAD
+		return findTagForCommit(getCommonDir(gitDir), head) ?? head.slice(0, 7);
+	}
+
+	return undefined;
+}
+
+// Get the current branch for a repository root, re-reading HEAD when it changes
+export function getBranch(gitRoot: string): string | undefined {
+	const gitDir = resolveGitDir(gitRoot);
+	if (!gitDir) {
+		return undefined;
+	}
+
+	const headPath = path.join(gitDir, "HEAD");
+	try {
+		const stat = fs.statSync(headPath);
+		const cached = headCache.get(gitDir);
+		if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+			return cached.branch;
+		}
+
+		const branch = parseHead(gitDir, fs.readFileSync(headPath, "utf-8").trim());
+		headCache.set(gitDir, { mtimeMs: stat.mtimeMs, size: stat.size, branch });
+		return branch;
+	} catch {
+		headCache.delete(gitDir);
+		return undefined;
+	}
+}
+
+// Get the URLs of a repository's remotes from its config. Entries in git
+// config are indented, so this doesn't use the INI parser (which reads
+// indented lines as continuations).
+export function getRemoteUrls(gitRoot: string): string[] {
+	const gitDir = resolveGitDir(gitRoot);
+	if (!gitDir) {
+		return [];
+	}
+	let content: string;
+	try {
+		content = fs.readFileSync(path.join(getCommonDir(gitDir), "config"), "utf-8");
+	} catch {
+		return [];
+	}
+
+	const urls: string[] = [];
+	let inRemote = false;
+	for (const line of content.split(/\r?\n/)) {
+		const section = line.match(/^\s*\[([^\]]+)\]/);
+		if (section) {
+			inRemote = /^remote\s+"/.test(section[1]);
+			continue;
+		}
+		const url = inRemote ? line.match(/^\s*url\s*=\s*(.+?)\s*$/) : null;
+		if (url) {
+			urls.push(url[1]);
+		}
+	}
+	return urls;
+}
+
+// Forget cached HEAD state (e.g. on session start)
+export function clearGitCache() {
+	headCache.clear();
+}
@@ -0,0 +1,65 @@
+/**
+ * Minimal glob matching for workspace, privacy and profile patterns.
+ *
+ * Supports `*`, `**`, `?` and `{a,b}` alternatives. Patterns are matched
+ * against forward-slash paths.
+ */
+
+const globCache = new Map<string, RegExp>();
+
+// Convert a glob pattern to an anchored regular expression
+export function globToRegExp(pattern: string): RegExp {
+	const cached = globCache.get(pattern);
+	if (cached) {
+		return cached;
+	}
+
+	let source = "";
+	let inGroup = false;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more directories, trailing "**" matches everything below
+				if (pattern[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			inGroup = true;
+			source += "(?:";
+		} else if (char === "}" && inGroup) {
+			inGroup = false;
+			source += ")";
+		} else if (char === "," && inGroup) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	const regex = new RegExp(`^${source}$`);
+	globCache.set(pattern, regex);
+	return regex;
+}
+
+// Normalize a path to forward slashes for matching
+export function toGlobPath(filePath: string): string {
+	return filePath.replace(/\\/g, "/");
+}
+
+// Check whether a path matches any of the given patterns
+export function matchesAny(filePath: string, patterns: string[]): boolean {
+	const target = toGlobPath(filePath);
+	return patterns.some((pattern) => globToRegExp(toGlobPath(pattern)).test(target));
+}
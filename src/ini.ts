@@ -0,0 +1,211 @@
+/**
+ * Reading, writing and validation of ~/.wakatime.cfg (INI format).
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import * as os from "node:os";
+
+export type IniData = Record<string, Record<string, string>>;
+
+// Path of the WakaTime config file
+export function getWakaTimeConfigPath(): string {
+	return path.join(os.homedir(), ".wakatime.cfg");
+}
+
+interface IniLine {
+	kind: "blank" | "comment" | "section" | "entry" | "continuation" | "other";
+	text: string;
+	// Section the line belongs to (the section's own name for headers)
+	section: string;
+	// Key of an entry, or of the entry a continuation line belongs to
+	key?: string;
+	value?: string;
+}
+
+// Classify each line of INI content. Indented lines continue the previous
+// value (as in multi-line ignore patterns).
+function scanIni(content: string): IniLine[] {
+	const lines: IniLine[] = [];
+	let section = "";
+	let lastKey: string | undefined;
+
+	for (const text of content.split(/\r?\n/)) {
+		const line = text.trim();
+		if (!line) {
+			lines.push({ kind: "blank", text, section });
+		} else if (line.startsWith("#") || line.startsWith(";")) {
+			lines.push({ kind: "comment", text, section });
+		} else if (/^\s/.test(text) && lastKey !== undefined) {
+			lines.push({ kind: "continuation", text, section, key: lastKey, value: line });
+		} else if (/^\[[^\]]+\]$/.test(line)) {
+			section = line.slice(1, -1).trim();
+			lastKey = undefined;
+			lines.push({ kind: "section", text, section });
+		} else if (line.indexOf("=") > 0) {
+			const eq = line.indexOf("=");
+			lastKey = line.slice(0, eq).trim();
+			lines.push({ kind: "entry", text, section, key: lastKey, value: line.slice(eq + 1).trim() });
+		} else {
+			lines.push({ kind: "other", text, section });
+		}
+	}
+
+	return lines;
+}
+
+// Parse INI content into sections of key/value pairs. Continuation lines are
+// joined to their value with newlines.
+export function parseIni(content: string): IniData {
+	const data: IniData = {};
+
+	for (const line of scanIni(content)) {
+		if (line.kind === "section") {
+			data[line.section] ??= {};
+		} else if (line.kind === "entry") {
+			data[line.section] ??= {};
+			data[line.section][line.key!] = line.value!;
+		} else if (line.kind === "continuation") {
+			const previous = data[line.section][line.key!];
+			data[line.section][line.key!] = previous ? `${previous}\n${line.value}` : line.value!;
+		}
+	}
+
+	return data;
+}
+
+// Format an entry, writing multi-line values as indented continuation lines
+function formatIniEntry(key: string, value: string): string[] {
+	const [first, ...rest] = value.split("\n");
+	return rest.length > 0 ? [`${key} =`, ...[first, ...rest].map((line) => `    ${line}`)] : [`${key} = ${first}`];
+}
+
+// Set (or remove, for undefined) keys in one section of INI content. Other
+// sections, comments, blank lines and key order are left as they are; new
+// keys go after the section's last entry, and a missing section is appended.
+export function setIniValues(content: string, section: string, values: Record<string, string | undefined>): string {
+	const eol = content.includes("\r\n") ? "\r\n" : "\n";
+	const lines = scanIni(content);
+	const output: string[] = [];
+	const written = new Set<string>();
+	let sectionFound = false;
+	let insertAt = -1;
+
+	for (const line of lines) {
+		const key = line.key;
+		const owned = line.section === section && key !== undefined && key in values;
+		if (owned && line.kind === "continuation") {
+			continue;
+		}
+		if (owned && line.kind === "entry") {
+			// The first occurrence is replaced, duplicates are dropped
+			if (!written.has(key) && values[key] !== undefined) {
+				output.push(...formatIniEntry(key, values[key]!));
+			}
+			written.add(key);
+			insertAt = output.length;
+			continue;
+		}
+		output.push(line.text);
+		if (line.section === section && (line.kind === "section" || line.kind === "entry" || line.kind === "continuation")) {
+			sectionFound ||= line.kind === "section";
+			insertAt = output.length;
+		}
+	}
+
+	const added = Object.entries(values)
+		.filter(([key, value]) => !written.has(key) && value !== undefined)
+		.flatMap(([key, value]) => formatIniEntry(key, value!));
+	if (added.length === 0) {
+		return output.join(eol);
+	}
+
+	if (sectionFound) {
+		output.splice(insertAt, 0, ...added);
+		return output.join(eol);
+	}
+
+	// Append the section, keeping a single trailing newline
+	while (output.length > 0 && output[output.length - 1].trim() === "") {
+		output.pop();
+	}
+	if (output.length > 0) {
+		output.push("");
+	}
+	output.push(`[${section}]`, ...added, "");
+	return output.join(eol);
+}
+
+// Read the [settings] section of ~/.wakatime.cfg (or a profile's config file)
+export function readWakaTimeSettings(filePath = getWakaTimeConfigPath()): Record<string, string> {
+	try {
+		return parseIni(fs.readFileSync(filePath, "utf-8")).settings ?? {};
+	} catch {
+		return {};
+	}
+}
+
+// Set (or remove, for undefined) keys in the [settings] section of ~/.wakatime.cfg.
+// The file is replaced atomically and kept readable only by the user.
+export function writeWakaTimeSettings(
+	values: Record<string, string | undefined>,
+	filePath = getWakaTimeConfigPath()
+): void {
+	// Write through symlinks (e.g. a dotfiles repo) instead of replacing them
+	const exists = fs.existsSync(filePath);
+	const configPath = exists ? fs.realpathSync(filePath) : filePath;
+	const content = exists ? fs.readFileSync(configPath, "utf-8") : "";
+	const tmpPath = `${configPath}.${process.pid}.tmp`;
+	fs.writeFileSync(tmpPath, setIniValues(content, "settings", values), { mode: 0o600 });
+	fs.renameSync(tmpPath, configPath);
+}
+
+// API key available without running api_key_vault_cmd: WAKATIME_API_KEY, then api_key
+// (wakatime-cli's order)
+export function directApiKey(settings = readWakaTimeSettings()): string | undefined {
+	return process.env.WAKATIME_API_KEY || settings.api_key || undefined;
+}
+
+// Check for an API key in the environment, api_key or api_key_vault_cmd
+export function isApiKeyConfigured(settings = readWakaTimeSettings()): boolean {
+	return !!(directApiKey(settings) || settings.api_key_vault_cmd);
+}
+
+// Check whether an API URL points to a server other than wakatime.com
+export function isCustomServer(apiUrl: string | undefined): boolean {
+	if (!apiUrl) {
+		return false;
+	}
+	try {
+		const hostname = new URL(apiUrl).hostname;
+		return hostname !== "wakatime.com" && !hostname.endsWith(".wakatime.com");
+	} catch {
+		return true;
+	}
+}
+
+// Check that an API URL is a valid http(s) URL
+export function isValidApiUrl(apiUrl: string): boolean {
+	try {
+		const url = new URL(apiUrl);
+		return url.protocol === "http:" || url.protocol === "https:";
+	} catch {
+		return false;
+	}
+}
+
+// Validate WakaTime API key format
+export function isValidApiKey(key: string, customServer = false): boolean {
+	// Self-hosted servers (e.g. Wakapi) use their own key formats
+	if (customServer) {
+		return key.length > 0 && !/\s/.test(key);
+	}
+
+	// WakaTime API keys are either:
+	// - Legacy: UUID format (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
+	// - New: waka_ prefix followed by UUID (waka_xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
+	const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+	const wakaPattern = /^waka_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+	return uuidPattern.test(key) || wakaPattern.test(key);
+}
@@ -0,0 +1,287 @@
+/**
+ * wakatime-cli installation.
+ *
+ * Downloads a release (the latest, or the pinned `cliVersion`) from GitHub or
+ * a mirror, or takes a local zip, verifies it against the release's SHA-256
+ * checksums file, extracts the binary in-process and swaps it in atomically,
+ * restoring the previous binary if the new one doesn't run.
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as http from "node:http";
+import * as https from "node:https";
+import * as path from "node:path";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import { expandHome } from "./files";
+import { httpRequest } from "./transport";
+import { readZipEntries } from "./zip";
+
+export interface InstallOptions {
+	cliPath: string;
+	// "latest" or a release tag such as "v1.90.0"
+	version: string;
+	// Replaces https://github.com/wakatime/wakatime-cli/releases/download
+	mirrorUrl?: string;
+	// Local zip file or URL of a zip to install instead of a release download
+	source?: string;
+	notify?: (message: string, type: "info" | "warning" | "error") => void;
+}
+
+const GITHUB_DOWNLOAD_URL = "https://github.com/wakatime/wakatime-cli/releases/download";
+const GITHUB_LATEST_RELEASE_URL = "https://api.github.com/repos/wakatime/wakatime-cli/releases/latest";
+const CHECKSUMS_FILE = "checksums_sha256.txt";
+const USER_AGENT = "pi-wakatime-extension";
+
+const MAX_REDIRECTS = 5;
+
+// Map Node.js platform and arch to wakatime-cli release naming
+export function getPlatformInfo(): { platform: string; arch: string } | null {
+	const platform = os.platform();
+	const arch = os.arch();
+
+	// Map Node.js platform to wakatime-cli naming
+	let wkPlatform: string;
+	switch (platform) {
+		case "linux":
+			wkPlatform = "linux";
+			break;
+		case "darwin":
+			wkPlatform = "darwin";
+			break;
+		case "win32":
+			wkPlatform = "windows";
+			break;
+		case "freebsd":
+			wkPlatform = "freebsd";
+			break;
+		case "openbsd":
+			wkPlatform = "openbsd";
+			break;
+		case "netbsd":
+			wkPlatform = "netbsd";
+			break;
+		default:
+			return null;
+	}
+
+	// Map Node.js arch to wakatime-cli naming
+	let wkArch: string;
+	switch (arch) {
+		case "x64":
+			wkArch = "amd64";
+			break;
+		case "arm64":
+			wkArch = "arm64";
+			break;
+		case "ia32":
+			wkArch = "386";
+			break;
+		case "arm":
+			wkArch = "arm";
+			break;
+		default:
+			return null;
+	}
+
+	return { platform: wkPlatform, arch: wkArch };
+}
+
+// Download a URL into memory, following redirects
+export function download(url: string, redirects = MAX_REDIRECTS): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const client = url.startsWith("http:") ? http : https;
+		const request = client.get(url, { headers: { "User-Agent": USER_AGENT }, timeout: 60000 }, (response) => {
+			const status = response.statusCode ?? 0;
+			const location = response.headers.location;
+
+			// Handle redirects
+			if (status >= 300 && status < 400 && location) {
+				response.resume();
+				if (redirects <= 0) {
+					reject(new Error(`Too many redirects downloading ${url}`));
+					return;
+				}
+				download(new URL(location, url).toString(), redirects - 1).then(resolve, reject);
+				return;
+			}
+
+			if (status !== 200) {
+				response.resume();
+				reject(new Error(`Failed to download ${url}: HTTP ${status}`));
+				return;
+			}
+
+			const chunks: Buffer[] = [];
+			response.on("data", (chunk: Buffer) => chunks.push(chunk));
+			response.on("end", () => resolve(Buffer.concat(chunks)));
+			response.on("error", reject);
+		});
+		request.on("timeout", () => request.destroy(new Error(`Timed out downloading ${url}`)));
+		request.on("error", reject);
+	});
+}
+
+// Tag of the latest wakatime-cli release on GitHub
+export async function fetchLatestVersion(): Promise<string> {
+	const response = await httpRequest("GET", GITHUB_LATEST_RELEASE_URL, { "User-Agent": USER_AGENT });
+	if (response.status !== 200) {
+		throw new Error(`Failed to get latest release: HTTP ${response.status}`);
+	}
+	let tag: unknown;
+	try {
+		tag = JSON.parse(response.body)?.tag_name;
+	} catch {
+		// Handled below
+	}
+	if (typeof tag !== "string" || !tag) {
+		throw new Error("Failed to parse release info");
+	}
+	return tag;
+}
+
+// Find the checksum for a file in a sha256sum-style checksums file
+function findChecksum(checksums: string, fileName: string): string | undefined {
+	for (const line of checksums.split("\n")) {
+		const match = line.trim().match(/^([0-9a-f]{64})\s+\*?(.+)$/i);
+		if (match && path.basename(match[2]) === fileName) {
+			return match[1].toLowerCase();
+		}
+	}
+	return undefined;
+}
+
+// Check that a zip matches its entry in a checksums file
+function verifyChecksum(zip: Buffer, checksums: string, zipName: string) {
+	const expected = findChecksum(checksums, zipName);
+	if (!expected) {
+		throw new Error(`${zipName} is not listed in ${CHECKSUMS_FILE}`);
+	}
+	const actual = createHash("sha256").update(zip).digest("hex");
+	if (actual !== expected) {
+		throw new Error(`Checksum mismatch for ${zipName} (expected ${expected}, got ${actual})`);
+	}
+}
+
+// Run a binary with --version, resolving with its output
+export function readCliVersion(cliPath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(cliPath, ["--version"], { timeout: 10000 }, (error, stdout) => {
+			if (error) {
+				reject(error);
+				return;
+			}
+			resolve(stdout.trim());
+		});
+	});
+}
+
+// Replace the binary at cliPath, rolling back if the new one doesn't run. The old
+// binary is copied aside and the new one renamed over it, so cliPath always exists.
+async function replaceBinary(cliPath: string, binary: Buffer) {
+	const newPath = `${cliPath}.new`;
+	const backupPath = `${cliPath}.bak`;
+	const hadPrevious = fs.existsSync(cliPath);
+
+	fs.mkdirSync(path.dirname(cliPath), { recursive: true });
+	fs.writeFileSync(newPath, binary, { mode: 0o755 });
+
+	try {
+		if (hadPrevious) {
+			fs.copyFileSync(cliPath, backupPath);
+		}
+		fs.renameSync(newPath, cliPath);
+		await readCliVersion(cliPath);
+	} catch (error) {
+		// Put the previous binary back
+		try {
+			fs.rmSync(newPath, { force: true });
+			if (hadPrevious) {
+				fs.renameSync(backupPath, cliPath);
+			} else {
+				fs.rmSync(cliPath, { force: true });
+			}
+		} catch {}
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`New binary failed to run, kept the previous one: ${message.trim()}`);
+	}
+
+	try {
+		fs.rmSync(backupPath, { force: true });
+	} catch {}
+}
+
+// Install wakatime-cli, returning whether it succeeded
+export async function installWakaTimeCli(options: InstallOptions): Promise<boolean> {
+	const { cliPath, notify } = options;
+	const platformInfo = getPlatformInfo();
+	if (!platformInfo) {
+		notify?.("Unsupported platform for wakatime-cli auto-install", "warning");
+		return false;
+	}
+
+	const { platform, arch } = platformInfo;
+	const isWindows = platform === "windows";
+	const zipName = `wakatime-cli-${platform}-${arch}.zip`;
+
+	try {
+		let zip: Buffer;
+		let label: string;
+
+		if (options.source && !/^https?:\/\//.test(options.source)) {
+			// Local zip, verified if a checksums file sits next to it
+			const zipPath = path.resolve(expandHome(options.source));
+			label = `wakatime-cli from ${zipPath}`;
+			zip = fs.readFileSync(zipPath);
+
+			const checksumsPath = path.join(path.dirname(zipPath), CHECKSUMS_FILE);
+			if (fs.existsSync(checksumsPath)) {
+				verifyChecksum(zip, fs.readFileSync(checksumsPath, "utf-8"), path.basename(zipPath));
+			} else {
+				notify?.(`No ${CHECKSUMS_FILE} next to ${zipPath}, skipping checksum verification`, "warning");
+			}
+		} else {
+			let zipUrl: string;
+			if (options.source) {
+				zipUrl = options.source;
+				label = `wakatime-cli from ${zipUrl}`;
+			} else {
+				const baseUrl = (options.mirrorUrl || GITHUB_DOWNLOAD_URL).replace(/\/+$/, "");
+				let version = options.version;
+				if (version === "latest" && !options.mirrorUrl) {
+					notify?.("Checking for latest wakatime-cli release...", "info");
+					version = await fetchLatestVersion();
+				} else if (version !== "latest" && !version.startsWith("v")) {
+					version = `v${version}`;
+				}
+				zipUrl = `${baseUrl}/${version}/${zipName}`;
+				label = `wakatime-cli ${version}`;
+			}
+
+			// Downloads are always verified against the checksums published alongside them
+			notify?.(`Downloading ${label}...`, "info");
+			const checksumsUrl = new URL(CHECKSUMS_FILE, zipUrl).toString();
+			const [zipData, checksums] = await Promise.all([download(zipUrl), download(checksumsUrl)]);
+			zip = zipData;
+			verifyChecksum(zip, checksums.toString("utf-8"), path.basename(new URL(zipUrl).pathname));
+		}
+
+		// The archive holds a single platform-specific binary
+		notify?.("Extracting wakatime-cli...", "info");
+		const binaryName = `wakatime-cli-${platform}-${arch}${isWindows ? ".exe" : ""}`;
+		const entry = readZipEntries(zip).find((candidate) => path.posix.basename(candidate.name) === binaryName);
+		if (!entry) {
+			throw new Error(`${binaryName} not found in archive`);
+		}
+
+		await replaceBinary(cliPath, entry.read());
+
+		notify?.(`${label} installed successfully!`, "info");
+		return true;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		notify?.(`Failed to install wakatime-cli: ${message}`, "error");
+		return false;
+	}
+}
@@ -0,0 +1,58 @@
+/**
+ * Language detection by file extension, for heartbeats sent without
+ * wakatime-cli's detection (HTTP transport, obfuscated file names).
+ */
+
+import * as path from "node:path";
+
+// Languages of common file extensions
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+	".ts": "TypeScript",
+	".tsx": "TSX",
+	".mts": "TypeScript",
+	".cts": "TypeScript",
+	".js": "JavaScript",
+	".jsx": "JSX",
+	".mjs": "JavaScript",
+	".cjs": "JavaScript",
+	".json": "JSON",
+	".md": "Markdown",
+	".py": "Python",
+	".rb": "Ruby",
+	".go": "Go",
+	".rs": "Rust",
+	".java": "Java",
+	".kt": "Kotlin",
+	".swift": "Swift",
+	".c": "C",
+	".h": "C",
+	".cc": "C++",
+	".cpp": "C++",
+	".hpp": "C++",
+	".cs": "C#",
+	".php": "PHP",
+	".sh": "Bash",
+	".bash": "Bash",
+	".zsh": "Zsh",
+	".html": "HTML",
+	".css": "CSS",
+	".scss": "SCSS",
+	".vue": "Vue.js",
+	".svelte": "Svelte",
+	".yaml": "YAML",
+	".yml": "YAML",
+	".toml": "TOML",
+	".sql": "SQL",
+	".lua": "Lua",
+	".ex": "Elixir",
+	".exs": "Elixir",
+	".hs": "Haskell",
+	".scala": "Scala",
+	".dart": "Dart",
+	".zig": "Zig",
+};
+
+// Detect a file's language from its extension
+export function detectLanguage(filePath: string): string | undefined {
+	return LANGUAGES_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
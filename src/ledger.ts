@@ -0,0 +1,214 @@
+/**
+ * Local activity ledger.
+ *
+ * Every heartbeat the extension queues is also appended to a monthly JSONL
+ * file (YYYY-MM.jsonl), so stats can be computed and exported without the
+ * WakaTime service. Durations are derived the way WakaTime computes them:
+ * the gap to the next entry counts towards an entry unless it exceeds the
+ * idle timeout.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { readJsonl } from "./files";
+import { IDLE_TIMEOUT_SECONDS } from "./model-stats";
+
+export interface LedgerEntry {
+	// Unix time in seconds
+	time: number;
+	entity: string;
+	type: string;
+	category: string;
+	project?: string;
+	branch?: string;
+	language?: string;
+	model?: string;
+	isWrite: boolean;
+	lines?: number;
+}
+
+export interface TimedEntry extends LedgerEntry {
+	seconds: number;
+}
+
+export interface DateRange {
+	// Local midnight of the first day, and of the day after the last (ms)
+	start: number;
+	end: number;
+	label: string;
+}
+
+export type StatsDimension = "project" | "language" | "model" | "category";
+
+export interface LedgerStats {
+	totalSeconds: number;
+	entries: number;
+	groups: Record<StatsDimension, { name: string; seconds: number; entries: number }[]>;
+}
+
+export interface Ledger {
+	append(entry: LedgerEntry): void;
+	read(range: DateRange): TimedEntry[];
+}
+
+export const STATS_DIMENSIONS: StatsDimension[] = ["project", "language", "model", "category"];
+
+function monthFile(dir: string, date: Date): string {
+	return path.join(dir, `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}.jsonl`);
+}
+
+function readEntries(filePath: string): LedgerEntry[] {
+	return readJsonl<LedgerEntry>(filePath, (entry) => typeof entry?.time === "number" && typeof entry?.entity === "string");
+}
+
+// Create a ledger stored in monthly files under dir
+export function createLedger(dir: string): Ledger {
+	return {
+		append(entry: LedgerEntry) {
+			try {
+				fs.mkdirSync(dir, { recursive: true });
+				fs.appendFileSync(monthFile(dir, new Date(entry.time * 1000)), JSON.stringify(entry) + "\n", { mode: 0o600 });
+			} catch {
+				// The ledger must never break tracking
+			}
+		},
+
+		read(range: DateRange): TimedEntry[] {
+			// Months overlapping the range
+			const entries: LedgerEntry[] = [];
+			const month = new Date(range.start);
+			month.setDate(1);
+			while (month.getTime() < range.end) {
+				entries.push(...readEntries(monthFile(dir, month)));
+				month.setMonth(month.getMonth() + 1);
+			}
+			entries.sort((a, b) => a.time - b.time);
+
+			const timed: TimedEntry[] = [];
+			for (let i = 0; i < entries.length; i++) {
+				const entry = entries[i];
+				if (entry.time * 1000 < range.start || entry.time * 1000 >= range.end) {
+					continue;
+				}
+				const next = entries[i + 1];
+				// Time is cut off at the end of the range
+				const gap = next ? Math.min(next.time, range.end / 1000) - entry.time : 0;
+				timed.push({ ...entry, seconds: gap > 0 && gap <= IDLE_TIMEOUT_SECONDS ? gap : 0 });
+			}
+			return timed;
+		},
+	};
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function parseDate(text: string): Date | undefined {
+	const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) {
+		return undefined;
+	}
+	const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	// Reject dates that roll over, e.g. 2025-02-30
+	return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]) ? date : undefined;
+}
+
+function formatDate(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Parse "today", "yesterday", "week" (last 7 days), "month" (last 30 days),
+// "YYYY-MM-DD", or "YYYY-MM-DD..YYYY-MM-DD" / "YYYY-MM-DD YYYY-MM-DD" (inclusive)
+export function parseDateRange(text: string, now = new Date()): DateRange | { error: string } {
+	const value = text.trim() || "today";
+	const today = startOfDay(now);
+	const days = (start: Date, count: number, label: string): DateRange => ({
+		start: start.getTime(),
+		end: addDays(start, count).getTime(),
+		label,
+	});
+
+	switch (value) {
+		case "today":
+			return days(today, 1, "today");
+		case "yesterday":
+			return days(addDays(today, -1), 1, "yesterday");
+		case "week":
+			return days(addDays(today, -6), 7, "last 7 days");
+		case "month":
+			return days(addDays(today, -29), 30, "last 30 days");
+	}
+
+	const [fromText, toText = fromText] = value.split(/\s*\.\.\s*|\s+/);
+	const from = parseDate(fromText);
+	const to = parseDate(toText);
+	if (!from || !to) {
+		return { error: `Invalid range "${value}". Use today, yesterday, week, month, YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD` };
+	}
+	if (to < from) {
+		return { error: `Range ends before it starts: ${value}` };
+	}
+	return {
+		start: from.getTime(),
+		end: addDays(to, 1).getTime(),
+		label: fromText === toText ? formatDate(from) : `${formatDate(from)} to ${formatDate(to)}`,
+	};
+}
+
+// Total time per project, language, model and category
+export function aggregateLedger(entries: TimedEntry[]): LedgerStats {
+	const groups = {} as LedgerStats["groups"];
+	for (const dimension of STATS_DIMENSIONS) {
+		const totals = new Map<string, { name: string; seconds: number; entries: number }>();
+		for (const entry of entries) {
+			const name = entry[dimension] || "(unknown)";
+			const total = totals.get(name) ?? { name, seconds: 0, entries: 0 };
+			total.seconds += entry.seconds;
+			total.entries++;
+			totals.set(name, total);
+		}
+		groups[dimension] = [...totals.values()].sort((a, b) => b.seconds - a.seconds);
+	}
+	return {
+		totalSeconds: entries.reduce((sum, entry) => sum + entry.seconds, 0),
+		entries: entries.length,
+		groups,
+	};
+}
+
+const CSV_COLUMNS: (keyof TimedEntry)[] = [
+	"time",
+	"seconds",
+	"project",
+	"branch",
+	"entity",
+	"type",
+	"language",
+	"category",
+	"model",
+	"isWrite",
+	"lines",
+];
+
+function csvField(value: unknown): string {
+	const text = value === undefined ? "" : String(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Format entries as CSV, with ISO timestamps
+export function toCsv(entries: TimedEntry[]): string {
+	const rows = [CSV_COLUMNS.join(",")];
+	for (const entry of entries) {
+		rows.push(
+			CSV_COLUMNS.map((column) =>
+				csvField(column === "time" ? new Date(entry.time * 1000).toISOString() : column === "seconds" ? Math.round(entry.seconds) : entry[column])
+			).join(",")
+		);
+	}
+	return rows.join("\n") + "\n";
+}
@@ -0,0 +1,126 @@
+/**
+ * Rotating debug log.
+ *
+ * Entries are JSON lines with a timestamp, level, message and structured
+ * fields (heartbeat args, exit codes, stderr, durations), so they can be
+ * filtered and shown by /wakatime-log without writing to the pi TUI. When
+ * the file passes MAX_LOG_BYTES it is rotated to .1 (and .1 to .2), keeping
+ * MAX_LOG_FILES files in total.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { readJsonl } from "./files";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+	time: string;
+	level: LogLevel;
+	message: string;
+	[field: string]: unknown;
+}
+
+export interface Logger {
+	debug(message: string, fields?: Record<string, unknown>): void;
+	info(message: string, fields?: Record<string, unknown>): void;
+	warn(message: string, fields?: Record<string, unknown>): void;
+	error(message: string, fields?: Record<string, unknown>): void;
+	// Most recent entries at or above minLevel, oldest first
+	read(count: number, minLevel?: LogLevel): LogEntry[];
+}
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const MAX_LOG_BYTES = 1024 * 1024;
+const MAX_LOG_FILES = 3;
+
+// Create a logger writing to filePath, keeping entries at or above getLevel()
+export function createLogger(filePath: string, getLevel: () => LogLevel | "off"): Logger {
+	// Current file size, read on the first write and tracked afterwards
+	let size: number | undefined;
+
+	function rotate() {
+		for (let i = MAX_LOG_FILES - 1; i >= 1; i--) {
+			const from = i === 1 ? filePath : `${filePath}.${i - 1}`;
+			try {
+				fs.renameSync(from, `${filePath}.${i}`);
+			} catch {
+				// Not there yet
+			}
+		}
+		size = 0;
+	}
+
+	function write(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+		const minLevel = getLevel();
+		if (minLevel === "off" || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) {
+			return;
+		}
+
+		const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...fields }) + "\n";
+		try {
+			if (size === undefined) {
+				fs.mkdirSync(path.dirname(filePath), { recursive: true });
+				size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+			}
+			const bytes = Buffer.byteLength(line);
+			if (size + bytes > MAX_LOG_BYTES) {
+				rotate();
+			}
+			fs.appendFileSync(filePath, line, { mode: 0o600 });
+			size = (size ?? 0) + bytes;
+		} catch {
+			// Logging must never break tracking
+		}
+	}
+
+	function readEntries(file: string): LogEntry[] {
+		return readJsonl<LogEntry>(
+			file,
+			(entry) => typeof entry?.message === "string" && entry.level !== undefined && LOG_LEVELS.includes(entry.level)
+		);
+	}
+
+	return {
+		debug: (message, fields) => write("debug", message, fields),
+		info: (message, fields) => write("info", message, fields),
+		warn: (message, fields) => write("warn", message, fields),
+		error: (message, fields) => write("error", message, fields),
+
+		read(count: number, minLevel: LogLevel = "debug"): LogEntry[] {
+			const threshold = LOG_LEVELS.indexOf(minLevel);
+			let entries: LogEntry[] = [];
+			// Newest file first, until enough entries are found
+			for (let i = 0; i < MAX_LOG_FILES && entries.length < count; i++) {
+				const file = i === 0 ? filePath : `${filePath}.${i}`;
+				const matching = readEntries(file).filter((entry) => LOG_LEVELS.indexOf(entry.level) >= threshold);
+				entries = [...matching, ...entries];
+			}
+			return entries.slice(-count);
+		},
+	};
+}
+
+// Format an entry as one or more display lines
+export function formatLogEntry(entry: LogEntry): string {
+	const { time, level, message, ...fields } = entry;
+	const lines = [`${time.replace("T", " ").slice(0, 19)} ${level.toUpperCase().padEnd(5)} ${message}`];
+	for (const [key, value] of Object.entries(fields)) {
+		if (value === undefined || value === "") {
+			continue;
+		}
+		const text = typeof value === "string" ? value : JSON.stringify(value);
+		lines.push(`    ${key}: ${text.length > 500 ? `${text.slice(0, 500)}...` : text}`);
+	}
+	return lines.join("\n");
+}
+
+// A logger that discards everything, for callers that don't pass one
+export const nullLogger: Logger = {
+	debug() {},
+	info() {},
+	warn() {},
+	error() {},
+	read: () => [],
+};
@@ -0,0 +1,137 @@
+/**
+ * Local per-model time totals.
+ *
+ * Time is attributed the way WakaTime computes durations: the gap between
+ * two consecutive heartbeats counts towards the model active at the first
+ * one, unless the gap exceeds the idle timeout. Totals are persisted to a
+ * JSON file so models can be compared across sessions. Each save re-reads the
+ * file and adds only what this session recorded since the last save, so pi
+ * sessions running side by side don't overwrite each other's time.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+
+export interface ModelTotals {
+	seconds: number;
+	heartbeats: number;
+}
+
+export interface ModelTimeTracker {
+	record(model: string, timestamp?: number): void;
+	getSessionTotals(): Map<string, ModelTotals>;
+	getAllTimeTotals(): Map<string, ModelTotals>;
+	save(): void;
+	resetSession(): void;
+}
+
+// Gaps longer than this between heartbeats are treated as idle time
+export const IDLE_TIMEOUT_SECONDS = 15 * 60;
+
+// Minimum interval between writes of the totals file
+const SAVE_INTERVAL_MS = 60 * 1000;
+
+function addTotals(totals: Map<string, ModelTotals>, model: string, seconds: number, heartbeats: number) {
+	const entry = totals.get(model) ?? { seconds: 0, heartbeats: 0 };
+	entry.seconds += seconds;
+	entry.heartbeats += heartbeats;
+	totals.set(model, entry);
+}
+
+// Load persisted totals, ignoring a missing or corrupt file
+function loadTotals(filePath: string): Map<string, ModelTotals> {
+	const totals = new Map<string, ModelTotals>();
+	try {
+		const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+		for (const [model, entry] of Object.entries(data.models ?? {})) {
+			const { seconds, heartbeats } = entry as Partial<ModelTotals>;
+			if (typeof seconds === "number" && typeof heartbeats === "number") {
+				totals.set(model, { seconds, heartbeats });
+			}
+		}
+	} catch {
+		// Start from scratch
+	}
+	return totals;
+}
+
+// Create a tracker persisting all-time totals to filePath
+export function createModelTimeTracker(filePath: string): ModelTimeTracker {
+	let allTime = loadTotals(filePath);
+	// Recorded since the last save
+	const unsaved = new Map<string, ModelTotals>();
+	let session = new Map<string, ModelTotals>();
+	let last: { model: string; timestamp: number } | undefined;
+	let lastSave = Date.now();
+
+	function save() {
+		if (unsaved.size === 0) {
+			return;
+		}
+		try {
+			const totals = loadTotals(filePath);
+			for (const [model, entry] of unsaved) {
+				addTotals(totals, model, entry.seconds, entry.heartbeats);
+			}
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			const tmpPath = `${filePath}.${process.pid}.tmp`;
+			fs.writeFileSync(tmpPath, JSON.stringify({ models: Object.fromEntries(totals) }, null, 2));
+			fs.renameSync(tmpPath, filePath);
+			allTime = totals;
+			unsaved.clear();
+			lastSave = Date.now();
+		} catch {
+			// Keep totals in memory and retry on next save
+		}
+	}
+
+	return {
+		record(model: string, timestamp = Date.now()) {
+			if (last) {
+				const gap = (timestamp - last.timestamp) / 1000;
+				if (gap > 0 && gap <= IDLE_TIMEOUT_SECONDS) {
+					addTotals(session, last.model, gap, 0);
+					addTotals(allTime, last.model, gap, 0);
+					addTotals(unsaved, last.model, gap, 0);
+				}
+			}
+			addTotals(session, model, 0, 1);
+			addTotals(allTime, model, 0, 1);
+			addTotals(unsaved, model, 0, 1);
+			last = { model, timestamp };
+
+			if (Date.now() - lastSave >= SAVE_INTERVAL_MS) {
+				save();
+			}
+		},
+
+		getSessionTotals() {
+			return session;
+		},
+
+		getAllTimeTotals() {
+			return allTime;
+		},
+
+		save,
+
+		resetSession() {
+			session = new Map();
+			last = undefined;
+		},
+	};
+}
+
+// Format seconds as a short duration (e.g. "1h 5m", "42s")
+export function formatDuration(seconds: number): string {
+	const total = Math.round(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	if (hours > 0) {
+		return `${hours}h ${minutes}m`;
+	}
+	if (minutes > 0) {
+		return `${minutes}m`;
+	}
+	return `${total}s`;
+}
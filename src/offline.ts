@@ -0,0 +1,134 @@
+/**
+ * Persistent offline heartbeat queue.
+ *
+ * Heartbeats that can't be delivered (no CLI, no API key, transport errors)
+ * are appended to a JSONL file and replayed with their original timestamps
+ * once delivery works again. Draining first renames the file, so heartbeats
+ * appended meanwhile (e.g. by another pi process) are never lost.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { readJsonl } from "./files";
+import { nullLogger, type Logger } from "./log";
+import type { Heartbeat } from "./queue";
+
+export interface OfflineQueue {
+	append(heartbeats: Heartbeat[]): void;
+	size(): number;
+	oldestTime(): number | undefined;
+	drain(send: (batch: Heartbeat[]) => Promise<Heartbeat[]>): Promise<number>;
+}
+
+// When the file grows past this size, the oldest heartbeats beyond the limit are dropped
+const TRIM_CHECK_BYTES = 32 * 1024 * 1024;
+const MAX_OFFLINE_HEARTBEATS = 50000;
+
+const REPLAY_BATCH_SIZE = 25;
+
+// Read heartbeats from a JSONL file, skipping corrupt lines
+function readHeartbeats(filePath: string): Heartbeat[] {
+	return readJsonl<Heartbeat>(
+		filePath,
+		(heartbeat) => typeof heartbeat?.entity === "string" && typeof heartbeat?.time === "number"
+	);
+}
+
+function toJsonl(heartbeats: Heartbeat[]): string {
+	return heartbeats.map((heartbeat) => JSON.stringify(heartbeat) + "\n").join("");
+}
+
+// Create an offline queue stored at filePath
+export function createOfflineQueue(filePath: string, logger: Logger = nullLogger): OfflineQueue {
+	let draining = false;
+	// Heartbeats in the file, read once and then kept up to date by append, trim and drain
+	// (appends by other pi processes are only seen by the next read)
+	let count: number | undefined;
+
+	function append(heartbeats: Heartbeat[]) {
+		if (heartbeats.length === 0) {
+			return;
+		}
+		try {
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.appendFileSync(filePath, toJsonl(heartbeats), { mode: 0o600 });
+			if (count !== undefined) {
+				count += heartbeats.length;
+			}
+			logger.info("Heartbeats saved to offline queue", { heartbeats: heartbeats.length });
+
+			// Trim the oldest entries if the queue grew too large
+			if (fs.statSync(filePath).size > TRIM_CHECK_BYTES) {
+				const all = readHeartbeats(filePath);
+				if (all.length > MAX_OFFLINE_HEARTBEATS) {
+					fs.writeFileSync(filePath, toJsonl(all.slice(all.length - MAX_OFFLINE_HEARTBEATS)), { mode: 0o600 });
+					count = MAX_OFFLINE_HEARTBEATS;
+					logger.warn("Offline queue full, dropped oldest heartbeats", { dropped: all.length - MAX_OFFLINE_HEARTBEATS });
+				}
+			}
+		} catch (error) {
+			logger.error("Failed to write offline queue", { error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	return {
+		append,
+
+		size() {
+			count ??= readHeartbeats(filePath).length;
+			return count;
+		},
+
+		oldestTime() {
+			const heartbeats = readHeartbeats(filePath);
+			return heartbeats.reduce<number | undefined>(
+				(oldest, heartbeat) => (oldest === undefined || heartbeat.time < oldest ? heartbeat.time : oldest),
+				undefined
+			);
+		},
+
+		async drain(send: (batch: Heartbeat[]) => Promise<Heartbeat[]>): Promise<number> {
+			if (draining || !fs.existsSync(filePath)) {
+				return 0;
+			}
+			draining = true;
+
+			// Move the file aside so concurrent appends start a new one
+			const drainPath = `${filePath}.${process.pid}.draining`;
+			try {
+				fs.renameSync(filePath, drainPath);
+			} catch {
+				draining = false;
+				return 0;
+			}
+			// Anything not sent is appended again
+			count = 0;
+
+			const heartbeats = readHeartbeats(drainPath);
+			logger.info("Replaying offline queue", { heartbeats: heartbeats.length });
+			let sent = 0;
+			try {
+				while (sent < heartbeats.length) {
+					const batch = heartbeats.slice(sent, sent + REPLAY_BATCH_SIZE);
+					const failed = await send(batch);
+					if (failed.length > 0) {
+						// Keep what failed and everything after it for the next replay
+						append([...failed, ...heartbeats.slice(sent + batch.length)]);
+						sent += batch.length - failed.length;
+						return sent;
+					}
+					sent += batch.length;
+				}
+				return sent;
+			} catch {
+				append(heartbeats.slice(sent));
+				return sent;
+			} finally {
+				try {
+					fs.unlinkSync(drainPath);
+				} catch {}
+				draining = false;
+			}
+		},
+	};
+}
@@ -0,0 +1,103 @@
+/**
+ * Privacy controls for heartbeats.
+ *
+ * - `include`/`exclude` glob lists decide which entities are tracked
+ * - A `.wakatime-ignore` file opts a repository (or any directory) out
+ * - `hideFileNames`/`hideProjectNames` replace names with obfuscated ones
+ */
+
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { expandHome } from "./files";
+import { matchesAny } from "./glob";
+
+export interface PrivacyOptions {
+	include: string[];
+	exclude: string[];
+	hideFileNames: boolean;
+	hideProjectNames: boolean;
+}
+
+export interface PrivacyFilter {
+	shouldTrack(entity: string, projectRoot?: string): boolean;
+	clear(): void;
+}
+
+// Match a path against patterns, both as absolute and relative to the project root
+function matchesPatterns(entity: string, projectRoot: string | undefined, patterns: string[]): boolean {
+	if (patterns.length === 0) {
+		return false;
+	}
+	const expanded = patterns.map(expandHome);
+	if (matchesAny(entity, expanded)) {
+		return true;
+	}
+	if (projectRoot) {
+		const relative = path.relative(projectRoot, entity);
+		if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+			return matchesAny(relative, expanded);
+		}
+	}
+	return false;
+}
+
+// Create a filter that applies include/exclude globs and .wakatime-ignore opt-outs
+export function createPrivacyFilter(getOptions: () => PrivacyOptions): PrivacyFilter {
+	// Whether a directory (or one of its parents) contains .wakatime-ignore
+	const optOutCache = new Map<string, boolean>();
+
+	function isOptedOut(dir: string): boolean {
+		const cached = optOutCache.get(dir);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const parent = path.dirname(dir);
+		const optedOut =
+			fs.existsSync(path.join(dir, ".wakatime-ignore")) || (parent !== dir && isOptedOut(parent));
+		optOutCache.set(dir, optedOut);
+		return optedOut;
+	}
+
+	return {
+		shouldTrack(entity: string, projectRoot?: string): boolean {
+			const options = getOptions();
+
+			let dir = entity;
+			try {
+				if (!fs.statSync(entity).isDirectory()) {
+					dir = path.dirname(entity);
+				}
+			} catch {
+				dir = path.dirname(entity);
+			}
+			if (isOptedOut(dir)) {
+				return false;
+			}
+
+			// Exclude always wins; a non-empty include list restricts tracking to matches
+			if (matchesPatterns(entity, projectRoot, options.exclude)) {
+				return false;
+			}
+			if (options.include.length > 0 && !matchesPatterns(entity, projectRoot, options.include)) {
+				return false;
+			}
+			return true;
+		},
+
+		clear() {
+			optOutCache.clear();
+		},
+	};
+}
+
+// Obfuscated file name, keeping only the extension (as wakatime-cli's hide_file_names does)
+export function obfuscateFileName(filePath: string): string {
+	return `HIDDEN${path.extname(filePath)}`;
+}
+
+// Stable obfuscated project name, so time still groups by project
+export function obfuscateProjectName(project: string): string {
+	return `project-${createHash("sha256").update(project).digest("hex").slice(0, 8)}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Named WakaTime profiles, e.g. separate accounts for client and internal work.
+ *
+ * Each profile can point at its own wakatime-cli config file (with its own
+ * API key), server and category, and is picked for a project when one of its
+ * `paths` globs matches the project root or one of its `remotes` globs
+ * matches a git remote URL. The first matching profile in settings order
+ * wins; the `profile` setting forces one.
+ */
+
+import * as path from "node:path";
+import { expandHome } from "./files";
+import { getRemoteUrls } from "./git";
+import { matchesAny } from "./glob";
+
+export interface WakaTimeProfile {
+	configFile?: string;
+	apiUrl?: string;
+	category?: string;
+	paths?: string[];
+	remotes?: string[];
+}
+
+export interface ActiveProfile {
+	name: string;
+	// Absolute path, undefined to use ~/.wakatime.cfg
+	configFile?: string;
+	apiUrl?: string;
+	category?: string;
+	// What selected the profile
+	reason: string;
+}
+
+export interface ProfileSelector {
+	// Profile for a project root (and its git root, for remotes), cached per root
+	select(root: string | undefined, gitRoot?: string): ActiveProfile | undefined;
+	clear(): void;
+}
+
+const STRING_FIELDS = ["configFile", "apiUrl", "category"] as const;
+const LIST_FIELDS = ["paths", "remotes"] as const;
+
+// Validate the profiles setting, returning an error for the first bad field
+export function validateProfiles(value: unknown): string | undefined {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return `"profiles" must be an object of named profiles, got ${JSON.stringify(value)}`;
+	}
+	for (const [name, profile] of Object.entries(value)) {
+		if (typeof profile !== "object" || profile === null || Array.isArray(profile)) {
+			return `Profile "${name}" must be an object`;
+		}
+		for (const [field, fieldValue] of Object.entries(profile)) {
+			if ((STRING_FIELDS as readonly string[]).includes(field)) {
+				if (typeof fieldValue !== "string" || !fieldValue.trim()) {
+					return `Profile "${name}": "${field}" must be a non-empty string`;
+				}
+			} else if ((LIST_FIELDS as readonly string[]).includes(field)) {
+				if (!Array.isArray(fieldValue) || !fieldValue.every((item) => typeof item === "string")) {
+					return `Profile "${name}": "${field}" must be a list of strings`;
+				}
+			} else {
+				return `Profile "${name}": unknown field "${field}" (expected ${[...STRING_FIELDS, ...LIST_FIELDS].join(", ")})`;
+			}
+		}
+	}
+	return undefined;
+}
+
+// Resolve a profile's settings, expanding ~ in its config file
+export function activateProfile(name: string, profile: WakaTimeProfile, reason: string): ActiveProfile {
+	return {
+		name,
+		configFile: profile.configFile ? path.resolve(expandHome(profile.configFile)) : undefined,
+		apiUrl: profile.apiUrl,
+		category: profile.category,
+		reason,
+	};
+}
+
+export function createProfileSelector(
+	getOptions: () => { profiles: Record<string, WakaTimeProfile>; profile: string }
+): ProfileSelector {
+	const cache = new Map<string, ActiveProfile | undefined>();
+
+	function match(root: string, gitRoot: string | undefined): ActiveProfile | undefined {
+		const { profiles, profile: forced } = getOptions();
+		if (forced && profiles[forced]) {
+			return activateProfile(forced, profiles[forced], "profile setting");
+		}
+
+		let remotes: string[] | undefined;
+		for (const [name, profile] of Object.entries(profiles)) {
+			const paths = (profile.paths ?? []).map(expandHome);
+			if (paths.length > 0 && matchesAny(root, paths)) {
+				return activateProfile(name, profile, `path ${root}`);
+			}
+			if (profile.remotes?.length && gitRoot) {
+				remotes ??= getRemoteUrls(gitRoot);
+				const remote = remotes.find((url) => matchesAny(url, profile.remotes!));
+				if (remote) {
+					return activateProfile(name, profile, `remote ${remote}`);
+				}
+			}
+		}
+		return undefined;
+	}
+
+	return {
+		select(root, gitRoot) {
+			if (!root) {
+				return undefined;
+			}
+			if (!cache.has(root)) {
+				cache.set(root, match(root, gitRoot));
+			}
+			return cache.get(root);
+		},
+
+		clear() {
+			cache.clear();
+		},
+	};
+}
@@ -0,0 +1,212 @@
+/**
+ * Project and branch resolution for heartbeat entities.
+ *
+ * Each entity is mapped to a project by looking, in order, for:
+ * - A `.wakatime-project` file (first line: project name, second line: branch)
+ * - The nearest git root, optionally split into monorepo workspace sub-projects
+ * - The fallback directory (usually the session cwd), for entities below it
+ *
+ * Entities outside every repository and the fallback directory, such as
+ * /etc/hosts, get no project.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { findGitRoot, getBranch } from "./git";
+import { globToRegExp, toGlobPath } from "./glob";
+
+export interface ProjectInfo {
+	project?: string;
+	branch?: string;
+	root: string;
+	gitRoot?: string;
+	workspace?: string;
+}
+
+export interface ProjectResolverOptions {
+	fallbackDir: string;
+	workspaceProjects: boolean;
+}
+
+export interface ProjectResolver {
+	resolve(entity: string): ProjectInfo;
+	clear(): void;
+}
+
+type CachedProject = Omit<ProjectInfo, "branch"> & { branchOverride?: string };
+
+interface ProjectFileInfo {
+	dir: string;
+	project?: string;
+	branch?: string;
+}
+
+// Find the nearest .wakatime-project file, walking up from startDir to stopDir
+function findProjectFile(startDir: string, stopDir?: string): ProjectFileInfo | null {
+	let dir = startDir;
+	while (true) {
+		const projectFile = path.join(dir, ".wakatime-project");
+		if (fs.existsSync(projectFile)) {
+			try {
+				const lines = fs.readFileSync(projectFile, "utf-8").split(/\r?\n/).map((line) => line.trim());
+				return { dir, project: lines[0] || undefined, branch: lines[1] || undefined };
+			} catch {
+				return { dir };
+			}
+		}
+		if (dir === stopDir || dir === path.dirname(dir)) {
+			return null;
+		}
+		dir = path.dirname(dir);
+	}
+}
+
+// Read workspace globs from package.json, pnpm-workspace.yaml and lerna.json
+function readWorkspacePatterns(root: string): string[] {
+	const patterns: string[] = [];
+
+	try {
+		const pkgPath = path.join(root, "package.json");
+		if (fs.existsSync(pkgPath)) {
+			const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+			const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+			if (Array.isArray(workspaces)) {
+				patterns.push(...workspaces);
+			}
+		}
+	} catch {
+		// Invalid package.json
+	}
+
+	try {
+		const pnpmPath = path.join(root, "pnpm-workspace.yaml");
+		if (fs.existsSync(pnpmPath)) {
+			let inPackages = false;
+			for (const line of fs.readFileSync(pnpmPath, "utf-8").split(/\r?\n/)) {
+				if (/^packages\s*:/.test(line)) {
+					inPackages = true;
+				} else if (inPackages && /^\s*-\s*/.test(line)) {
+					patterns.push(line.replace(/^\s*-\s*/, "").replace(/^["']|["']$/g, "").trim());
+				} else if (inPackages && /^\S/.test(line)) {
+					inPackages = false;
+				}
+			}
+		}
+	} catch {
+		// Invalid pnpm-workspace.yaml
+	}
+
+	try {
+		const lernaPath = path.join(root, "lerna.json");
+		if (fs.existsSync(lernaPath)) {
+			const lerna = JSON.parse(fs.readFileSync(lernaPath, "utf-8"));
+			if (Array.isArray(lerna.packages)) {
+				patterns.push(...lerna.packages);
+			}
+		}
+	} catch {
+		// Invalid lerna.json
+	}
+
+	// Negated patterns only exclude, they never define a workspace
+	return patterns
+		.filter((pattern): pattern is string => typeof pattern === "string" && !pattern.startsWith("!"))
+		.map((pattern) => toGlobPath(pattern).replace(/^\.\//, "").replace(/\/$/, ""));
+}
+
+// Find the workspace directory (relative to root) that contains relativeDir
+function findWorkspace(relativeDir: string, patterns: string[]): string | undefined {
+	if (!relativeDir || patterns.length === 0) {
+		return undefined;
+	}
+
+	// Check ancestors from shallowest to deepest so "packages/**" maps to "packages/foo"
+	const segments = toGlobPath(relativeDir).split("/");
+	for (let i = 1; i <= segments.length; i++) {
+		const candidate = segments.slice(0, i).join("/");
+		if (patterns.some((pattern) => globToRegExp(pattern).test(candidate))) {
+			return candidate;
+		}
+	}
+	return undefined;
+}
+
+// Check whether dir is parent or a directory below it
+function isWithin(dir: string, parent: string): boolean {
+	const relative = path.relative(parent, dir);
+	return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// Create a resolver that maps entities to projects, caching per directory
+export function createProjectResolver(options: ProjectResolverOptions): ProjectResolver {
+	const dirCache = new Map<string, CachedProject>();
+	const workspaceCache = new Map<string, string[]>();
+
+	function getWorkspacePatterns(root: string): string[] {
+		let patterns = workspaceCache.get(root);
+		if (!patterns) {
+			patterns = readWorkspacePatterns(root);
+			workspaceCache.set(root, patterns);
+		}
+		return patterns;
+	}
+
+	function resolveDir(dir: string): CachedProject {
+		const cached = dirCache.get(dir);
+		if (cached) {
+			return cached;
+		}
+
+		let result: CachedProject;
+		const gitRoot = findGitRoot(dir) ?? undefined;
+		// A .wakatime-project outside the repository must not capture it
+		const projectFile = findProjectFile(dir, gitRoot);
+
+		if (projectFile) {
+			result = {
+				project: projectFile.project || path.basename(projectFile.dir),
+				root: projectFile.dir,
+				gitRoot,
+				branchOverride: projectFile.branch,
+			};
+		} else if (gitRoot) {
+			const rootName = path.basename(gitRoot);
+			const workspace = options.workspaceProjects
+				? findWorkspace(path.relative(gitRoot, dir), getWorkspacePatterns(gitRoot))
+				: undefined;
+			result = workspace
+				? { project: `${rootName}/${path.basename(workspace)}`, root: path.join(gitRoot, workspace), gitRoot, workspace }
+				: { project: rootName, root: gitRoot, gitRoot };
+		} else if (isWithin(dir, options.fallbackDir)) {
+			result = { project: path.basename(options.fallbackDir), root: options.fallbackDir };
+		} else {
+			result = { root: dir };
+		}
+
+		dirCache.set(dir, result);
+		return result;
+	}
+
+	return {
+		resolve(entity: string): ProjectInfo {
+			let dir = path.dirname(entity);
+			try {
+				if (fs.statSync(entity).isDirectory()) {
+					dir = entity;
+				}
+			} catch {
+				// Entity may not exist yet (e.g. a new file), use its parent directory
+			}
+
+			const { branchOverride, ...info } = resolveDir(dir);
+			// Branch is looked up on every call so checkouts are picked up
+			const branch = branchOverride ?? (info.gitRoot ? getBranch(info.gitRoot) : undefined);
+			return { ...info, branch };
+		},
+
+		clear() {
+			dirCache.clear();
+			workspaceCache.clear();
+		},
+	};
+}
@@ -0,0 +1,146 @@
+/**
+ * Heartbeat queue with deduplication and batching.
+ *
+ * Follows the rules of the official WakaTime plugins: a non-write heartbeat
+ * for the same entity is skipped if one was queued less than two minutes
+ * ago, while writes always go through. Queued heartbeats are flushed in
+ * batches so a burst of tool calls costs one wakatime-cli process instead
+ * of one per file.
+ */
+
+export interface Heartbeat {
+	entity: string;
+	type: "file" | "app" | "domain";
+	category: string;
+	time: number;
+	project?: string;
+	branch?: string;
+	isWrite: boolean;
+	aiLineChanges?: number;
+	language?: string;
+	isUnsavedEntity?: boolean;
+	plugin: string;
+	hostname?: string;
+	// wakatime-cli config file and API URL of the project's profile
+	configFile?: string;
+	apiUrl?: string;
+}
+
+export interface HeartbeatQueueOptions {
+	send: (batch: Heartbeat[]) => Promise<void>;
+	dedupeWindowMs?: number;
+	flushIntervalMs?: number;
+	maxBatchSize?: number;
+}
+
+export interface HeartbeatQueue {
+	enqueue(heartbeat: Heartbeat): boolean;
+	flush(): Promise<void>;
+	size(): number;
+	clear(): void;
+}
+
+// Official plugins skip repeated heartbeats for the same file within 2 minutes
+const DEFAULT_DEDUPE_WINDOW_MS = 2 * 60 * 1000;
+
+const DEFAULT_FLUSH_INTERVAL_MS = 10 * 1000;
+
+const DEFAULT_MAX_BATCH_SIZE = 25;
+
+// Create a queue that dedupes heartbeats and sends them in batches
+export function createHeartbeatQueue(options: HeartbeatQueueOptions): HeartbeatQueue {
+	const dedupeWindowMs = options.dedupeWindowMs ?? DEFAULT_DEDUPE_WINDOW_MS;
+	const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+	const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+
+	let pending: Heartbeat[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let inFlight: Promise<void> = Promise.resolve();
+	// Last queued time (ms) per entity and category, oldest first
+	const lastQueued = new Map<string, number>();
+
+	// Forget entities last queued before the dedupe window
+	function pruneLastQueued(now: number) {
+		for (const [key, time] of lastQueued) {
+			if (now - time < dedupeWindowMs) {
+				break;
+			}
+			lastQueued.delete(key);
+		}
+	}
+
+	function scheduleFlush() {
+		if (!timer) {
+			timer = setTimeout(() => {
+				timer = undefined;
+				void flush();
+			}, flushIntervalMs);
+			// Don't keep the process alive just to flush
+			timer.unref?.();
+		}
+	}
+
+	function flush(): Promise<void> {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+
+		const batches: Heartbeat[][] = [];
+		while (pending.length > 0) {
+			batches.push(pending.splice(0, maxBatchSize));
+		}
+
+		// Chain sends so batches go out in order
+		inFlight = inFlight.then(async () => {
+			for (const batch of batches) {
+				try {
+					await options.send(batch);
+				} catch {
+					// Transport errors are handled by the sender
+				}
+			}
+		});
+		return inFlight;
+	}
+
+	return {
+		enqueue(heartbeat: Heartbeat): boolean {
+			const key = `${heartbeat.category}\0${heartbeat.entity}`;
+			const now = heartbeat.time * 1000;
+			const last = lastQueued.get(key);
+
+			if (!heartbeat.isWrite && last !== undefined && now - last < dedupeWindowMs) {
+				return false;
+			}
+
+			// Re-inserted so the map stays ordered by time
+			lastQueued.delete(key);
+			pruneLastQueued(now);
+			lastQueued.set(key, now);
+			pending.push(heartbeat);
+
+			if (pending.length >= maxBatchSize) {
+				void flush();
+			} else {
+				scheduleFlush();
+			}
+			return true;
+		},
+
+		flush,
+
+		size() {
+			return pending.length;
+		},
+
+		clear() {
+			if (timer) {
+				clearTimeout(timer);
+				timer = undefined;
+			}
+			pending = [];
+			lastQueued.clear();
+		},
+	};
+}
@@ -0,0 +1,219 @@
+/**
+ * End-of-session activity report.
+ *
+ * Records the files the agent read and modified and the project and branch
+ * of every heartbeat, attributing time the way model-stats does (the gap to
+ * the next heartbeat, unless it exceeds the idle timeout). The report adds
+ * line changes, model totals and agent working time kept elsewhere, and can
+ * be formatted as text for the UI, as markdown, or written as JSON.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import type { ActivityTotals } from "./activity";
+import type { LineDiff } from "./diff";
+import { formatDuration, IDLE_TIMEOUT_SECONDS, type ModelTotals } from "./model-stats";
+
+export interface FileActivity {
+	path: string;
+	project?: string;
+	reads: number;
+	writes: number;
+	added: number;
+	removed: number;
+}
+
+export interface ProjectActivity {
+	project: string;
+	branch?: string;
+	seconds: number;
+	heartbeats: number;
+}
+
+export interface SessionReport {
+	startedAt: string;
+	endedAt: string;
+	// Wall-clock length of the session
+	durationSeconds: number;
+	// Time covered by heartbeats, as WakaTime would count it
+	activeSeconds: number;
+	// Time the agent spent working, and waiting for the user between prompts
+	agentSeconds: number;
+	waitingSeconds: number;
+	files: FileActivity[];
+	projects: ProjectActivity[];
+	models: { model: string; seconds: number; heartbeats: number }[];
+}
+
+export type ReportFormat = "markdown" | "json";
+
+export interface SessionRecorder {
+	recordFile(filePath: string, project: string | undefined, isWrite: boolean): void;
+	recordActivity(project: string | undefined, branch: string | undefined, timestamp?: number): void;
+	hasActivity(): boolean;
+	build(lineStats: Map<string, LineDiff>, models: Map<string, ModelTotals>, activity: ActivityTotals): SessionReport;
+	reset(): void;
+}
+
+export function createSessionRecorder(): SessionRecorder {
+	let startedAt = Date.now();
+	let files = new Map<string, FileActivity>();
+	let projects = new Map<string, ProjectActivity>();
+	let last: { key: string; timestamp: number } | undefined;
+
+	return {
+		recordFile(filePath, project, isWrite) {
+			const entry = files.get(filePath) ?? { path: filePath, project, reads: 0, writes: 0, added: 0, removed: 0 };
+			if (isWrite) {
+				entry.writes++;
+			} else {
+				entry.reads++;
+			}
+			files.set(filePath, entry);
+		},
+
+		recordActivity(project, branch, timestamp = Date.now()) {
+			const name = project || "(no project)";
+			const key = `${name}\0${branch ?? ""}`;
+			if (last) {
+				const gap = (timestamp - last.timestamp) / 1000;
+				const previous = projects.get(last.key);
+				if (previous && gap > 0 && gap <= IDLE_TIMEOUT_SECONDS) {
+					previous.seconds += gap;
+				}
+			}
+			const entry = projects.get(key) ?? { project: name, branch, seconds: 0, heartbeats: 0 };
+			entry.heartbeats++;
+			projects.set(key, entry);
+			last = { key, timestamp };
+		},
+
+		hasActivity() {
+			return files.size > 0 || projects.size > 0;
+		},
+
+		build(lineStats, models, activity) {
+			const endedAt = Date.now();
+			const fileList = [...files.values()].map((file) => ({
+				...file,
+				added: lineStats.get(file.path)?.added ?? 0,
+				removed: lineStats.get(file.path)?.removed ?? 0,
+			}));
+			// Modified files first, then by path
+			fileList.sort((a, b) => Number(b.writes > 0) - Number(a.writes > 0) || a.path.localeCompare(b.path));
+
+			const projectList = [...projects.values()].map((entry) => ({ ...entry, seconds: Math.round(entry.seconds) }));
+			projectList.sort((a, b) => b.seconds - a.seconds);
+
+			const modelList = [...models.entries()]
+				.map(([model, totals]) => ({ model, seconds: Math.round(totals.seconds), heartbeats: totals.heartbeats }))
+				.sort((a, b) => b.seconds - a.seconds);
+
+			return {
+				startedAt: new Date(startedAt).toISOString(),
+				endedAt: new Date(endedAt).toISOString(),
+				durationSeconds: Math.round((endedAt - startedAt) / 1000),
+				activeSeconds: projectList.reduce((sum, entry) => sum + entry.seconds, 0),
+				agentSeconds: activity.agentSeconds,
+				waitingSeconds: activity.waitingSeconds,
+				files: fileList,
+				projects: projectList,
+				models: modelList,
+			};
+		},
+
+		reset() {
+			startedAt = Date.now();
+			files = new Map();
+			projects = new Map();
+			last = undefined;
+		},
+	};
+}
+
+// Show paths below cwd relative to it
+function displayPath(filePath: string, cwd: string): string {
+	const relative = path.relative(cwd, filePath);
+	return relative && !relative.startsWith("..") && !path.isAbsolute(relative) ? relative : filePath;
+}
+
+function projectLabel(entry: ProjectActivity): string {
+	return entry.branch ? `${entry.project} (${entry.branch})` : entry.project;
+}
+
+// Format a report as plain text for the UI
+export function formatReport(report: SessionReport, cwd: string): string {
+	const read = report.files.filter((file) => file.writes === 0).length;
+	const modified = report.files.length - read;
+	const lines = [
+		`Session report: ${formatDuration(report.durationSeconds)}, ${formatDuration(report.activeSeconds)} active`,
+		`Agent working: ${formatDuration(report.agentSeconds)}, waiting for you: ${formatDuration(report.waitingSeconds)}`,
+		"",
+		`Files: ${read} read, ${modified} modified`,
+	];
+	for (const file of report.files.filter((file) => file.writes > 0)) {
+		lines.push(`  ${displayPath(file.path, cwd)}  +${file.added} -${file.removed}`);
+	}
+
+	if (report.projects.length > 0) {
+		lines.push("", "Projects:");
+		for (const entry of report.projects) {
+			lines.push(`  ${projectLabel(entry)}: ${formatDuration(entry.seconds)}`);
+		}
+	}
+
+	if (report.models.length > 0) {
+		lines.push("", "Models:");
+		for (const entry of report.models) {
+			lines.push(`  ${entry.model}: ${formatDuration(entry.seconds)} (${entry.heartbeats} heartbeats)`);
+		}
+	}
+
+	return lines.join("\n");
+}
+
+// Format a report as a markdown document
+export function formatReportMarkdown(report: SessionReport, cwd: string): string {
+	const lines = [
+		`# Session report ${report.startedAt.slice(0, 16).replace("T", " ")}`,
+		"",
+		`- Length: ${formatDuration(report.durationSeconds)} (${report.startedAt} – ${report.endedAt})`,
+		`- Active: ${formatDuration(report.activeSeconds)}`,
+		`- Agent working: ${formatDuration(report.agentSeconds)}`,
+		`- Waiting for you: ${formatDuration(report.waitingSeconds)}`,
+		"",
+		"## Files",
+		"",
+		"| File | Read | Modified | Lines |",
+		"| --- | ---: | ---: | ---: |",
+	];
+	for (const file of report.files) {
+		const changes = file.writes > 0 ? `+${file.added} -${file.removed}` : "";
+		lines.push(`| \`${displayPath(file.path, cwd)}\` | ${file.reads} | ${file.writes} | ${changes} |`);
+	}
+
+	lines.push("", "## Projects", "", "| Project | Branch | Time |", "| --- | --- | ---: |");
+	for (const entry of report.projects) {
+		lines.push(`| ${entry.project} | ${entry.branch ?? ""} | ${formatDuration(entry.seconds)} |`);
+	}
+
+	lines.push("", "## Models", "", "| Model | Time | Heartbeats |", "| --- | ---: | ---: |");
+	for (const entry of report.models) {
+		lines.push(`| ${entry.model} | ${formatDuration(entry.seconds)} | ${entry.heartbeats} |`);
+	}
+
+	return lines.join("\n") + "\n";
+}
+
+// Write a report into dir, returning the file's path
+export function writeReport(report: SessionReport, dir: string, format: ReportFormat, cwd: string): string {
+	const stamp = report.startedAt.slice(0, 19).replace(/[:T]/g, "-");
+	const project = (report.projects[0]?.project ?? "session").replace(/[^\w.-]+/g, "_");
+	const filePath = path.join(dir, `${stamp}-${project}.${format === "json" ? "json" : "md"}`);
+	fs.mkdirSync(dir, { recursive: true });
+	fs.writeFileSync(
+		filePath,
+		format === "json" ? JSON.stringify(report, null, 2) + "\n" : formatReportMarkdown(report, cwd)
+	);
+	return filePath;
+}
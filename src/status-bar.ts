@@ -0,0 +1,134 @@
+/**
+ * Footer status showing today's tracked time and this session's AI time.
+ *
+ * Today's total comes from the transport (wakatime-cli --today or the API),
+ * so it is cached: refreshed every REFRESH_INTERVAL_MS, and after heartbeats
+ * are delivered at most every MIN_REFRESH_INTERVAL_MS, with one fetch in
+ * flight at a time. Tracking being off or heartbeats failing to deliver
+ * replaces the total with an indicator.
+ */
+
+import { formatDuration } from "./model-stats";
+
+export interface StatusBarOptions {
+	getTodayTime: () => Promise<string>;
+	getSessionSeconds: () => number;
+	isEnabled: () => boolean;
+	refreshIntervalMs?: number;
+	minRefreshIntervalMs?: number;
+}
+
+export interface StatusBar {
+	// Start showing the status through setStatus (undefined clears it)
+	start(setStatus: (text: string | undefined) => void): void;
+	stop(): void;
+	// Record the outcome of a delivery attempt and refresh today's total if due
+	delivered(ok: boolean, queued: number): void;
+	// Re-render with cached values, e.g. after toggling tracking
+	update(): void;
+	// Fetch today's total now
+	refresh(): Promise<void>;
+}
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Transports report errors in parentheses, e.g. "(failed to fetch)"
+function isTime(text: string): boolean {
+	return !!text && !text.startsWith("(");
+}
+
+export function createStatusBar(options: StatusBarOptions): StatusBar {
+	const refreshIntervalMs = options.refreshIntervalMs ?? REFRESH_INTERVAL_MS;
+	const minRefreshIntervalMs = options.minRefreshIntervalMs ?? MIN_REFRESH_INTERVAL_MS;
+
+	let setStatus: ((text: string | undefined) => void) | undefined;
+	let timer: ReturnType<typeof setInterval> | undefined;
+	let today: string | undefined;
+	let lastFetch = 0;
+	let fetching: Promise<void> | undefined;
+	let failing = false;
+	let queued = 0;
+
+	function render() {
+		if (!setStatus) {
+			return;
+		}
+		if (!options.isEnabled()) {
+			setStatus("⏸ WakaTime off");
+			return;
+		}
+
+		const parts = [`⏱ ${today ?? "…"} today`];
+		const sessionSeconds = options.getSessionSeconds();
+		if (sessionSeconds > 0) {
+			parts.push(`AI ${formatDuration(sessionSeconds)}`);
+		}
+		if (failing) {
+			parts.push(`⚠ not sending${queued > 0 ? ` (${queued} queued)` : ""}`);
+		}
+		setStatus(parts.join(" · "));
+	}
+
+	function refresh(): Promise<void> {
+		if (!fetching) {
+			lastFetch = Date.now();
+			fetching = options
+				.getTodayTime()
+				.then((text) => {
+					// Keep the last known total when a fetch fails
+					if (isTime(text)) {
+						today = text;
+					}
+				})
+				.catch(() => {})
+				.finally(() => {
+					fetching = undefined;
+					render();
+				});
+		}
+		return fetching;
+	}
+
+	return {
+		start(callback) {
+			setStatus = callback;
+			if (!timer) {
+				timer = setInterval(() => {
+					if (options.isEnabled()) {
+						void refresh();
+					} else {
+						render();
+					}
+				}, refreshIntervalMs);
+				timer.unref?.();
+			}
+			render();
+			if (options.isEnabled()) {
+				void refresh();
+			}
+		},
+
+		stop() {
+			if (timer) {
+				clearInterval(timer);
+				timer = undefined;
+			}
+			setStatus?.(undefined);
+			setStatus = undefined;
+		},
+
+		delivered(ok, queuedCount) {
+			failing = !ok;
+			queued = queuedCount;
+			if (ok && Date.now() - lastFetch >= minRefreshIntervalMs) {
+				void refresh();
+			} else {
+				render();
+			}
+		},
+
+		update: render,
+		refresh,
+	};
+}
@@ -0,0 +1,386 @@
+/**
+ * Heartbeat transports.
+ *
+ * A transport delivers batches of heartbeats and fetches today's total.
+ * The CLI transport runs wakatime-cli (which adds language detection and
+ * its own offline queue); the HTTP transport posts directly to a
+ * WakaTime-compatible API such as wakatime.com or Wakapi, for machines
+ * where the CLI can't be installed. Heartbeats of a profile carry its config
+ * file and API URL, which both transports honour per batch.
+ */
+
+import { execFile } from "node:child_process";
+import * as http from "node:http";
+import * as https from "node:https";
+import * as os from "node:os";
+import { detectLanguage } from "./language";
+import { nullLogger, type Logger } from "./log";
+import type { Heartbeat } from "./queue";
+
+// Where to send: a profile's config file and API URL, defaults when omitted
+export interface TransportTarget {
+	configFile?: string;
+	apiUrl?: string;
+}
+
+export interface HeartbeatTransport {
+	name: "cli" | "http";
+	// Whether heartbeats for the target can be sent (a key is configured, the CLI exists)
+	isAvailable(target?: TransportTarget): boolean;
+	// Resolves with the heartbeats that could not be delivered
+	send(batch: Heartbeat[]): Promise<Heartbeat[]>;
+	getTodayTime(target?: TransportTarget): Promise<string>;
+}
+
+export interface CliTransportOptions {
+	getCliPath: () => string;
+	isAvailable: (target?: TransportTarget) => boolean;
+	logger?: Logger;
+}
+
+export interface HttpTransportOptions {
+	// Settings of ~/.wakatime.cfg, or of a profile's config file
+	getApiUrl: (configFile?: string) => string;
+	getApiKey: (configFile?: string) => string | undefined;
+	timeoutMs?: number;
+	logger?: Logger;
+}
+
+export interface HttpResponse {
+	status: number;
+	body: string;
+}
+
+export interface ServerCheck {
+	reachable: boolean;
+	status?: number;
+	error?: string;
+}
+
+export const DEFAULT_API_URL = "https://api.wakatime.com/api/v1";
+
+// wakatime-cli exit codes for heartbeats it saved to its own offline queue
+const CLI_QUEUED_EXIT_CODES = [102, 112];
+
+// Build wakatime-cli arguments for a single heartbeat
+export function heartbeatArgs(heartbeat: Heartbeat): string[] {
+	const args: string[] = [];
+
+	// Entity (file path or app name)
+	args.push("--entity", heartbeat.entity);
+	args.push("--entity-type", heartbeat.type);
+	args.push("--category", heartbeat.category);
+	args.push("--time", String(heartbeat.time));
+
+	// Let wakatime-cli auto-detect language from file extension/content,
+	// unless the real file name is hidden
+	if (heartbeat.language) {
+		args.push("--language", heartbeat.language);
+	}
+
+	if (heartbeat.isUnsavedEntity) {
+		args.push("--is-unsaved-entity");
+	}
+
+	if (heartbeat.project) {
+		args.push("--project", heartbeat.project);
+	}
+
+	if (heartbeat.branch) {
+		args.push("--alternate-branch", heartbeat.branch);
+	}
+
+	if (heartbeat.isWrite) {
+		args.push("--write");
+	}
+
+	if (heartbeat.aiLineChanges && heartbeat.aiLineChanges > 0) {
+		args.push("--ai-line-changes", String(heartbeat.aiLineChanges));
+	}
+
+	args.push("--plugin", heartbeat.plugin);
+
+	if (heartbeat.hostname) {
+		args.push("--hostname", heartbeat.hostname);
+	}
+
+	args.push(...targetArgs(heartbeat));
+
+	return args;
+}
+
+// wakatime-cli arguments selecting a profile's config file and server
+function targetArgs(target: TransportTarget): string[] {
+	const args: string[] = [];
+	if (target.configFile) {
+		args.push("--config", target.configFile);
+	}
+	if (target.apiUrl) {
+		args.push("--api-url", target.apiUrl);
+	}
+	return args;
+}
+
+function targetKey(target: TransportTarget): string {
+	return `${target.configFile ?? ""}\0${target.apiUrl ?? ""}`;
+}
+
+// Convert a heartbeat to the JSON format read by --extra-heartbeats
+function extraHeartbeatJson(heartbeat: Heartbeat): Record<string, unknown> {
+	return {
+		entity: heartbeat.entity,
+		type: heartbeat.type,
+		category: heartbeat.category,
+		time: heartbeat.time,
+		project: heartbeat.project,
+		alternate_branch: heartbeat.branch,
+		is_write: heartbeat.isWrite,
+		ai_line_changes: heartbeat.aiLineChanges,
+		language: heartbeat.language,
+		is_unsaved_entity: heartbeat.isUnsavedEntity,
+	};
+}
+
+// Group heartbeats by a key, keeping order within each group
+function groupBy(batch: Heartbeat[], key: (heartbeat: Heartbeat) => string): Heartbeat[][] {
+	const groups = new Map<string, Heartbeat[]>();
+	for (const heartbeat of batch) {
+		const k = key(heartbeat);
+		groups.set(k, [...(groups.get(k) ?? []), heartbeat]);
+	}
+	return [...groups.values()];
+}
+
+// Transport that runs wakatime-cli
+export function createCliTransport(options: CliTransportOptions): HeartbeatTransport {
+	const logger = options.logger ?? nullLogger;
+
+	return {
+		name: "cli",
+
+		isAvailable: options.isAvailable,
+
+		async send(batch: Heartbeat[]): Promise<Heartbeat[]> {
+			const failed: Heartbeat[] = [];
+			// --plugin, --hostname, --config and --api-url apply to the whole invocation
+			const groups = groupBy(
+				batch,
+				(heartbeat) => `${heartbeat.plugin}\0${heartbeat.hostname ?? ""}\0${targetKey(heartbeat)}`
+			);
+
+			for (const [first, ...extra] of groups) {
+				const cliPath = options.getCliPath();
+				const args = heartbeatArgs(first);
+				if (extra.length > 0) {
+					args.push("--extra-heartbeats");
+				}
+
+				logger.debug("Running wakatime-cli", { cliPath, args, extraHeartbeats: extra.length });
+				const started = Date.now();
+
+				const delivered = await new Promise<boolean>((resolve) => {
+					const child = execFile(cliPath, args, { timeout: 10000 }, (error, stdout, stderr) => {
+						// API errors are queued by the CLI itself; anything else (bad key, crash, timeout) is lost
+						const code = typeof error?.code === "number" ? error.code : undefined;
+						const ok = !error || (code !== undefined && CLI_QUEUED_EXIT_CODES.includes(code));
+						const fields = {
+							heartbeats: 1 + extra.length,
+							exitCode: error ? (code ?? null) : 0,
+							durationMs: Date.now() - started,
+							stderr: stderr.trim(),
+						};
+						if (!ok) {
+							logger.error("wakatime-cli failed", {
+								...fields,
+								// "Command failed: <args>" adds nothing for a plain non-zero exit
+								error: code === undefined ? error?.message.trim() : undefined,
+								args,
+								stdout: stdout.trim(),
+							});
+						} else if (error) {
+							logger.warn("wakatime-cli queued heartbeats offline", fields);
+						} else {
+							logger.info("Heartbeats sent via wakatime-cli", fields);
+						}
+						resolve(ok);
+					});
+
+					// Extra heartbeats are read from stdin as a JSON array
+					child.stdin?.on("error", () => {});
+					child.stdin?.end(extra.length > 0 ? JSON.stringify(extra.map(extraHeartbeatJson)) : undefined);
+				});
+
+				if (!delivered) {
+					failed.push(first, ...extra);
+				}
+			}
+
+			return failed;
+		},
+
+		getTodayTime(target = {}): Promise<string> {
+			return new Promise((resolve) => {
+				if (!options.isAvailable(target)) {
+					resolve("(CLI or API key not available)");
+					return;
+				}
+
+				execFile(options.getCliPath(), ["--today", ...targetArgs(target)], { timeout: 10000 }, (error, stdout, stderr) => {
+					if (error) {
+						logger.warn("Failed to get today's time", { error: error.message.trim(), stderr: stderr.trim() });
+						resolve("(failed to fetch)");
+						return;
+					}
+
+					const time = stdout.trim();
+					resolve(time || "0 secs");
+				});
+			});
+		},
+	};
+}
+
+// Join an API base URL and a path
+export function apiEndpoint(apiUrl: string, endpoint: string): string {
+	return `${apiUrl.replace(/\/+$/, "")}/${endpoint.replace(/^\/+/, "")}`;
+}
+
+// Make an HTTP(S) request, resolving with status and body
+export function httpRequest(
+	method: string,
+	url: string,
+	headers: Record<string, string>,
+	body?: string,
+	timeoutMs = 10000
+): Promise<HttpResponse> {
+	return new Promise((resolve, reject) => {
+		const client = url.startsWith("http:") ? http : https;
+		const request = client.request(url, { method, headers, timeout: timeoutMs }, (response) => {
+			let data = "";
+			response.setEncoding("utf-8");
+			response.on("data", (chunk) => (data += chunk));
+			response.on("end", () => resolve({ status: response.statusCode ?? 0, body: data }));
+		});
+		request.on("timeout", () => request.destroy(new Error(`Request timed out after ${timeoutMs}ms`)));
+		request.on("error", reject);
+		request.end(body);
+	});
+}
+
+// Check whether a WakaTime-compatible server responds (any HTTP status counts as reachable)
+export async function checkServer(apiUrl: string, apiKey?: string, timeoutMs = 5000): Promise<ServerCheck> {
+	const headers: Record<string, string> = { "User-Agent": userAgent("pi-wakatime/check") };
+	if (apiKey) {
+		headers.Authorization = `Basic ${Buffer.from(apiKey).toString("base64")}`;
+	}
+
+	try {
+		const response = await httpRequest("GET", apiEndpoint(apiUrl, "users/current/status_bar/today"), headers, undefined, timeoutMs);
+		return { reachable: true, status: response.status };
+	} catch (error) {
+		return { reachable: false, error: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+// User agent in the format WakaTime-compatible servers parse for OS and editor
+function userAgent(plugin: string): string {
+	return `wakatime/unset (${os.platform()}-${os.release()}-${os.arch()}) node/${process.versions.node} ${plugin}`;
+}
+
+// Convert a heartbeat to the API's JSON format
+function apiHeartbeatJson(heartbeat: Heartbeat): Record<string, unknown> {
+	const language = heartbeat.language ?? (heartbeat.type === "file" ? detectLanguage(heartbeat.entity) : undefined);
+	return {
+		entity: heartbeat.entity,
+		type: heartbeat.type,
+		category: heartbeat.category,
+		time: heartbeat.time,
+		project: heartbeat.project,
+		branch: heartbeat.branch,
+		language,
+		is_write: heartbeat.isWrite,
+		ai_line_changes: heartbeat.aiLineChanges,
+		user_agent: userAgent(heartbeat.plugin),
+	};
+}
+
+// Transport that posts directly to a WakaTime-compatible API
+export function createHttpTransport(options: HttpTransportOptions): HeartbeatTransport {
+	const timeoutMs = options.timeoutMs ?? 10000;
+	const logger = options.logger ?? nullLogger;
+
+	function headers(hostname?: string, configFile?: string): Record<string, string> {
+		const apiKey = options.getApiKey(configFile) ?? "";
+		const result: Record<string, string> = {
+			Authorization: `Basic ${Buffer.from(apiKey).toString("base64")}`,
+			"Content-Type": "application/json",
+			"User-Agent": userAgent(`pi-wakatime/http`),
+		};
+		if (hostname) {
+			result["X-Machine-Name"] = hostname;
+		}
+		return result;
+	}
+
+	return {
+		name: "http",
+
+		isAvailable(target = {}) {
+			return !!options.getApiKey(target.configFile);
+		},
+
+		async send(batch: Heartbeat[]): Promise<Heartbeat[]> {
+			const failed: Heartbeat[] = [];
+			// The machine name and the profile's key are request headers, so they apply per request
+			for (const group of groupBy(batch, (heartbeat) => `${heartbeat.hostname ?? ""}\0${targetKey(heartbeat)}`)) {
+				const { hostname, configFile, apiUrl } = group[0];
+				const url = apiEndpoint(apiUrl ?? options.getApiUrl(configFile), "users/current/heartbeats.bulk");
+				const body = JSON.stringify(group.map(apiHeartbeatJson));
+
+				logger.debug("Posting heartbeats", { url, heartbeats: group.map((heartbeat) => heartbeat.entity) });
+				const started = Date.now();
+
+				try {
+					const response = await httpRequest("POST", url, headers(hostname, configFile), body, timeoutMs);
+					if (response.status < 200 || response.status >= 300) {
+						throw new Error(`HTTP ${response.status} ${response.body.slice(0, 200)}`);
+					}
+					logger.info("Heartbeats sent via API", {
+						heartbeats: group.length,
+						status: response.status,
+						durationMs: Date.now() - started,
+					});
+				} catch (error) {
+					logger.error("API heartbeat request failed", {
+						url,
+						heartbeats: group.length,
+						error: error instanceof Error ? error.message : String(error),
+						durationMs: Date.now() - started,
+					});
+					failed.push(...group);
+				}
+			}
+
+			return failed;
+		},
+
+		async getTodayTime(target = {}): Promise<string> {
+			if (!options.getApiKey(target.configFile)) {
+				return "(API key not configured)";
+			}
+
+			try {
+				const url = apiEndpoint(target.apiUrl ?? options.getApiUrl(target.configFile), "users/current/status_bar/today");
+				const response = await httpRequest("GET", url, headers(undefined, target.configFile), undefined, timeoutMs);
+				if (response.status !== 200) {
+					return "(failed to fetch)";
+				}
+				const text = JSON.parse(response.body)?.data?.grand_total?.text;
+				return typeof text === "string" && text ? text : "0 secs";
+			} catch (error) {
+				logger.warn("Failed to get today's time", { error: error instanceof Error ? error.message : String(error) });
+				return "(failed to fetch)";
+			}
+		},
+	};
+}
@@ -0,0 +1,142 @@
+/**
+ * wakatime-cli update checks.
+ *
+ * Compares the installed CLI (`wakatime-cli --version`) with the pinned
+ * `cliVersion` or, when tracking "latest", with the newest GitHub release.
+ * The latest release is looked up at most once a day; the result is cached
+ * on disk so restarting pi doesn't hit the GitHub API again.
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { fetchLatestVersion, readCliVersion } from "./installer";
+
+export interface CliVersionStatus {
+	installed?: string;
+	// Pinned version, or the latest release when known
+	available?: string;
+	pinned: boolean;
+	// The installed version differs from the pinned one, or is older than the latest
+	outdated: boolean;
+	// When the latest release was last looked up (ms)
+	checkedAt?: number;
+	error?: string;
+}
+
+export interface UpdateCheckOptions {
+	cliPath: string;
+	version: string;
+	mirrorUrl?: string;
+	// Ignore the cached latest release
+	force?: boolean;
+}
+
+export interface UpdateChecker {
+	check(options: UpdateCheckOptions): Promise<CliVersionStatus>;
+	last(): CliVersionStatus | undefined;
+}
+
+interface LatestCache {
+	// Missing if the last lookup failed
+	version?: string;
+	checkedAt: number;
+}
+
+const CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Normalize version output or a tag to "v1.2.3", or undefined if there is none
+export function parseVersion(text: string): string | undefined {
+	const match = text.match(/v?(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?)/);
+	return match ? `v${match[1]}` : undefined;
+}
+
+// Compare two versions numerically (negative if a is older than b)
+export function compareVersions(a: string, b: string): number {
+	const partsA = a.replace(/^v/, "").split(/[-+]/)[0].split(".").map(Number);
+	const partsB = b.replace(/^v/, "").split(/[-+]/)[0].split(".").map(Number);
+	for (let i = 0; i < 3; i++) {
+		const diff = (partsA[i] || 0) - (partsB[i] || 0);
+		if (diff !== 0) {
+			return diff;
+		}
+	}
+	return 0;
+}
+
+// Create a checker that caches the latest release in cacheFile
+export function createUpdateChecker(cacheFile: string): UpdateChecker {
+	let lastStatus: CliVersionStatus | undefined;
+
+	function readCache(): LatestCache | undefined {
+		try {
+			const cache = JSON.parse(fs.readFileSync(cacheFile, "utf-8"));
+			if (typeof cache?.checkedAt === "number") {
+				return cache;
+			}
+		} catch {
+			// No cache yet
+		}
+		return undefined;
+	}
+
+	function writeCache(cache: LatestCache) {
+		try {
+			fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+			fs.writeFileSync(cacheFile, JSON.stringify(cache));
+		} catch {
+			// Checked again next time
+		}
+	}
+
+	// Latest release, from the cache if it is less than a day old
+	async function getLatest(force: boolean): Promise<LatestCache> {
+		const cached = readCache();
+		if (!force && cached && Date.now() - cached.checkedAt < CHECK_INTERVAL_MS) {
+			return cached;
+		}
+		try {
+			const latest = { version: await fetchLatestVersion(), checkedAt: Date.now() };
+			writeCache(latest);
+			return latest;
+		} catch (error) {
+			// Don't retry on every session start while offline
+			writeCache({ version: cached?.version, checkedAt: Date.now() });
+			throw error;
+		}
+	}
+
+	return {
+		async check(options: UpdateCheckOptions): Promise<CliVersionStatus> {
+			const pinned = options.version !== "latest";
+			const status: CliVersionStatus = { pinned, outdated: false };
+
+			try {
+				status.installed = parseVersion(await readCliVersion(options.cliPath));
+			} catch (error) {
+				status.error = `Failed to read installed version: ${error instanceof Error ? error.message.trim() : error}`;
+			}
+
+			if (pinned) {
+				status.available = parseVersion(options.version) ?? options.version;
+				status.outdated = !!status.installed && compareVersions(status.installed, status.available) !== 0;
+			} else if (!options.mirrorUrl) {
+				// A mirror has no release API, so only GitHub's latest release can be compared against
+				try {
+					const latest = await getLatest(!!options.force);
+					status.available = latest.version;
+					status.checkedAt = latest.checkedAt;
+					status.outdated = !!status.installed && !!latest.version && compareVersions(status.installed, latest.version) < 0;
+				} catch (error) {
+					status.error = `Failed to check for updates: ${error instanceof Error ? error.message : error}`;
+				}
+			}
+
+			lastStatus = status;
+			return status;
+		},
+
+		last() {
+			return lastStatus;
+		},
+	};
+}
@@ -0,0 +1,91 @@
+/**
+ * API key storage outside ~/.wakatime.cfg.
+ *
+ * wakatime-cli runs `api_key_vault_cmd` and uses what it prints as the API
+ * key, so the key can live in a password manager or the system keyring. The
+ * command is split on whitespace and run without a shell, as wakatime-cli
+ * does. Helpers store the key in `pass` or the Secret Service keyring (via
+ * `secret-tool`) and return the matching lookup command.
+ */
+
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type KeyringKind = "pass" | "secret-tool";
+
+interface Keyring {
+	label: string;
+	// Store the key, read from stdin
+	store: string[];
+	// api_key_vault_cmd that prints it again
+	lookup: string;
+}
+
+export const KEYRINGS: Record<KeyringKind, Keyring> = {
+	pass: {
+		label: "pass (wakatime/api-key)",
+		store: ["pass", "insert", "--multiline", "--force", "wakatime/api-key"],
+		lookup: "pass show wakatime/api-key",
+	},
+	"secret-tool": {
+		label: "System keyring (secret-tool)",
+		store: ["secret-tool", "store", "--label=WakaTime API key", "service", "wakatime", "username", "api-key"],
+		lookup: "secret-tool lookup service wakatime username api-key",
+	},
+};
+
+// Run a command, optionally feeding it stdin, resolving with trimmed stdout
+function run(command: string, args: string[], input?: string, timeoutMs = 10000): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const child = execFile(command, args, { timeout: timeoutMs }, (error, stdout, stderr) => {
+			if (error) {
+				const output = stderr.trim().split("\n")[0];
+				reject(new Error(output ? `${command} failed: ${output}` : `${command} failed: ${error.message}`));
+				return;
+			}
+			resolve(stdout.trim());
+		});
+		// Commands that don't read stdin may exit before it's written
+		child.stdin?.on("error", () => {});
+		child.stdin?.end(input);
+	});
+}
+
+// Check whether a command is on PATH
+export function isCommandAvailable(command: string): boolean {
+	for (const dir of (process.env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+		try {
+			fs.accessSync(path.join(dir, command), fs.constants.X_OK);
+			return true;
+		} catch {
+			// Not in this directory
+		}
+	}
+	return false;
+}
+
+// Keyrings whose command is installed
+export function availableKeyrings(): KeyringKind[] {
+	return (Object.keys(KEYRINGS) as KeyringKind[]).filter((kind) => isCommandAvailable(KEYRINGS[kind].store[0]));
+}
+
+// Store the API key in a keyring, resolving with the api_key_vault_cmd to read it back
+export async function storeInKeyring(kind: KeyringKind, apiKey: string): Promise<string> {
+	const [command, ...args] = KEYRINGS[kind].store;
+	await run(command, args, `${apiKey}\n`);
+	return KEYRINGS[kind].lookup;
+}
+
+// Run an api_key_vault_cmd and return the key it prints
+export async function readVaultKey(vaultCmd: string): Promise<string> {
+	const [command, ...args] = vaultCmd.split(/\s+/).filter(Boolean);
+	if (!command) {
+		throw new Error("api_key_vault_cmd is empty");
+	}
+	const key = await run(command, args);
+	if (!key) {
+		throw new Error(`${command} printed nothing`);
+	}
+	return key;
+}
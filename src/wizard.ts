@@ -0,0 +1,321 @@
+/**
+ * Interactive setup wizard for /wakatime-setup.
+ *
+ * Walks through the server, the API key (typed into a masked input, so it
+ * never ends up in command history), where the key is stored, where
+ * wakatime-cli lives, and tracking and privacy options. The key is verified
+ * against the server before anything is saved; the caller writes the result.
+ */
+
+import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
+import { decodeKittyPrintable, Key, matchesKey } from "@mariozechner/pi-tui";
+import type { WakaTimeConfig } from "./config";
+import { isCustomServer, isValidApiKey, isValidApiUrl } from "./ini";
+import { DEFAULT_API_URL, checkServer } from "./transport";
+import { availableKeyrings, KEYRINGS, readVaultKey, type KeyringKind } from "./vault";
+
+export interface SetupState {
+	apiKey?: string;
+	apiUrl?: string;
+	vaultCmd?: string;
+	config: WakaTimeConfig;
+}
+
+// Where to keep the key instead of api_key: a keyring to store it in, or a
+// command that already prints it
+export type KeyStorage = { keyring: KeyringKind } | { vaultCmd: string };
+
+export interface SetupResult {
+	apiKey: string;
+	// undefined for wakatime.com
+	apiUrl?: string;
+	// undefined for api_key in ~/.wakatime.cfg
+	storage?: KeyStorage;
+	// Only the settings that changed
+	settings: Partial<WakaTimeConfig>;
+}
+
+type BooleanKey = {
+	[K in keyof WakaTimeConfig]: WakaTimeConfig[K] extends boolean ? K : never;
+}[keyof WakaTimeConfig];
+
+interface ToggleOption {
+	key: BooleanKey | "sendModel";
+	label: string;
+}
+
+const TRACKING_OPTIONS: ToggleOption[] = [
+	{ key: "trackFiles", label: "Files the agent reads and edits" },
+	{ key: "trackBash", label: "Files touched by bash commands, tests and builds" },
+	{ key: "trackSessions", label: "Session activity (turns)" },
+	{ key: "workspaceProjects", label: "Monorepo workspaces as separate projects" },
+];
+
+const PRIVACY_OPTIONS: ToggleOption[] = [
+	{ key: "hideFileNames", label: "Hide file names" },
+	{ key: "hideProjectNames", label: "Hide project names" },
+	{ key: "sendModel", label: "Send the AI model name" },
+];
+
+const DONE = "Done";
+
+// Shown of an API key in the summary, only for keys far longer than it (e.g. "waka_" + 36 characters)
+const KEY_PREFIX_LENGTH = 9;
+const MIN_KEY_LENGTH_FOR_PREFIX = 32;
+
+// Mask an API key, keeping a recognizable prefix of long keys
+function maskApiKey(key: string): string {
+	return key.length >= MIN_KEY_LENGTH_FOR_PREFIX ? `${key.slice(0, KEY_PREFIX_LENGTH)}***` : "***";
+}
+
+// Read a secret without echoing it
+async function maskedInput(ui: ExtensionUIContext, title: string, hint: string): Promise<string | undefined> {
+	try {
+		return await ui.custom<string | undefined>((tui, theme, _keybindings, done) => {
+			let value = "";
+			return {
+				render(width: number): string[] {
+					const masked = "•".repeat(Math.min(value.length, Math.max(0, width - 4)));
+					return [
+						theme.fg("accent", title),
+						`> ${masked || theme.fg("dim", hint)}`,
+						theme.fg("dim", "enter to confirm · esc to cancel"),
+					];
+				},
+				handleInput(data: string) {
+					if (matchesKey(data, Key.enter)) {
+						done(value);
+						return;
+					}
+					if (matchesKey(data, Key.escape)) {
+						done(undefined);
+						return;
+					}
+					if (matchesKey(data, Key.backspace)) {
+						value = value.slice(0, -1);
+					} else {
+						// Typed characters and pastes (without the bracketed paste markers)
+						const text = (decodeKittyPrintable(data) ?? data).replace(/\x1b\[20[01]~/g, "").replace(/[\r\n]/g, "");
+						if (!/[\x00-\x1f\x7f]/.test(text)) {
+							value += text;
+						}
+					}
+					tui.requestRender();
+				},
+				invalidate() {},
+			};
+		});
+	} catch {
+		// Modes without custom components fall back to a plain input dialog
+		return ui.input(title, hint);
+	}
+}
+
+// Let the user flip options until they pick Done; false if cancelled
+async function toggleOptions(
+	ui: ExtensionUIContext,
+	title: string,
+	options: ToggleOption[],
+	values: Record<string, boolean>
+): Promise<boolean> {
+	while (true) {
+		const choices = options.map((option) => `${values[option.key] ? "[x]" : "[ ]"} ${option.label}`);
+		const choice = await ui.select(title, [...choices, DONE]);
+		if (choice === undefined) {
+			return false;
+		}
+		if (choice === DONE) {
+			return true;
+		}
+		const option = options[choices.indexOf(choice)];
+		values[option.key] = !values[option.key];
+	}
+}
+
+// Run the wizard, resolving with what to save, or undefined if cancelled
+export async function runSetupWizard(ui: ExtensionUIContext, state: SetupState): Promise<SetupResult | undefined> {
+	const { config } = state;
+
+	// Server
+	const WAKATIME = "wakatime.com";
+	const SELF_HOSTED = "Self-hosted server (Wakapi, Hakatime, ...)";
+	const currentCustom = isCustomServer(state.apiUrl);
+	const server = await ui.select(`WakaTime server (current: ${state.apiUrl || WAKATIME})`, [WAKATIME, SELF_HOSTED]);
+	if (server === undefined) {
+		return undefined;
+	}
+
+	let apiUrl: string | undefined;
+	while (server === SELF_HOSTED) {
+		const entered = await ui.input(
+			currentCustom ? `Server API URL (enter to keep ${state.apiUrl})` : "Server API URL",
+			"https://wakapi.example.com/api"
+		);
+		if (entered === undefined) {
+			return undefined;
+		}
+		const url = entered.trim() || (currentCustom ? state.apiUrl : "");
+		if (url && isValidApiUrl(url)) {
+			apiUrl = url;
+			break;
+		}
+		ui.notify("Expected an http(s) URL, e.g. https://wakapi.example.com/api", "error");
+	}
+
+	// API key, verified against the server
+	const serverUrl = apiUrl ?? DEFAULT_API_URL;
+	let apiKey: string;
+	while (true) {
+		const entered = await maskedInput(
+			ui,
+			state.apiKey ? "API key (enter to keep the current key)" : "API key",
+			apiUrl ? "the API key from your server's settings" : "waka_... from https://wakatime.com/settings/api-key"
+		);
+		if (entered === undefined) {
+			return undefined;
+		}
+		const key = entered.trim() || state.apiKey;
+		if (!key) {
+			ui.notify("An API key is required", "error");
+			continue;
+		}
+		if (!isValidApiKey(key, !!apiUrl)) {
+			ui.notify("That doesn't look like a WakaTime API key (waka_xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)", "error");
+			continue;
+		}
+
+		ui.notify(`Verifying API key with ${serverUrl}...`, "info");
+		const check = await checkServer(serverUrl, key);
+		if (check.reachable && check.status !== undefined && check.status >= 200 && check.status < 300) {
+			ui.notify("API key verified", "info");
+			apiKey = key;
+			break;
+		}
+
+		const problem = !check.reachable
+			? `Couldn't reach ${serverUrl} (${check.error})`
+			: check.status === 401 || check.status === 403
+				? "The server rejected this API key"
+				: `The server responded with HTTP ${check.status}`;
+		const next = await ui.select(`${problem}. What now?`, ["Enter the key again", "Save it anyway", "Cancel setup"]);
+		if (next === "Save it anyway") {
+			apiKey = key;
+			break;
+		}
+		if (next !== "Enter the key again") {
+			return undefined;
+		}
+	}
+
+	// Where the key is kept
+	const FILE = "~/.wakatime.cfg (plain text)";
+	const COMMAND = "Another command that prints the key (api_key_vault_cmd)";
+	const KEEP = `Keep current command (${state.vaultCmd})`;
+	const keyrings = availableKeyrings();
+	const storageOptions = [FILE, ...keyrings.map((kind) => KEYRINGS[kind].label), COMMAND];
+	// Re-running setup keeps an existing api_key_vault_cmd unless another storage is picked
+	if (state.vaultCmd) {
+		storageOptions.unshift(KEEP);
+	}
+	let storage: KeyStorage | undefined;
+	while (true) {
+		const choice = await ui.select("Where should the API key be stored?", storageOptions);
+		if (choice === undefined) {
+			return undefined;
+		}
+		if (choice === FILE) {
+			break;
+		}
+		const keyring = keyrings.find((kind) => KEYRINGS[kind].label === choice);
+		if (keyring) {
+			storage = { keyring };
+			break;
+		}
+
+		const entered =
+			choice === KEEP
+				? state.vaultCmd
+				: await ui.input("Command that prints the API key", state.vaultCmd ?? "pass show wakatime/api-key");
+		const vaultCmd = entered?.trim() || state.vaultCmd;
+		if (!vaultCmd) {
+			continue;
+		}
+		try {
+			if ((await readVaultKey(vaultCmd)) === apiKey) {
+				storage = { vaultCmd };
+				break;
+			}
+			ui.notify(`\`${vaultCmd}\` prints a different key. Store the key there first.`, "error");
+		} catch (error) {
+			ui.notify(error instanceof Error ? error.message : String(error), "error");
+		}
+	}
+
+	const settings: Partial<WakaTimeConfig> = {};
+
+	// wakatime-cli
+	const DEFAULT_CLI = `wakatime-cli at ${config.cliPath}`;
+	const CUSTOM_CLI = "wakatime-cli at another path";
+	const NO_CLI = "No wakatime-cli, send heartbeats directly to the API";
+	const cliChoice = await ui.select("How should heartbeats be sent?", [DEFAULT_CLI, CUSTOM_CLI, NO_CLI]);
+	if (cliChoice === undefined) {
+		return undefined;
+	}
+	settings.transport = cliChoice === NO_CLI ? "http" : "cli";
+	if (cliChoice === CUSTOM_CLI) {
+		const cliPath = await ui.input("Path to wakatime-cli", config.cliPath);
+		if (cliPath === undefined) {
+			return undefined;
+		}
+		if (cliPath.trim()) {
+			settings.cliPath = cliPath.trim();
+		}
+	}
+
+	// Tracking and privacy
+	const values: Record<string, boolean> = {
+		trackFiles: config.trackFiles,
+		trackBash: config.trackBash,
+		trackSessions: config.trackSessions,
+		workspaceProjects: config.workspaceProjects,
+		hideFileNames: config.hideFileNames,
+		hideProjectNames: config.hideProjectNames,
+		sendModel: config.modelEncoding !== "none",
+	};
+	if (!(await toggleOptions(ui, "What should be tracked?", TRACKING_OPTIONS, values))) {
+		return undefined;
+	}
+	if (!(await toggleOptions(ui, "Privacy", PRIVACY_OPTIONS, values))) {
+		return undefined;
+	}
+	for (const option of [...TRACKING_OPTIONS, ...PRIVACY_OPTIONS]) {
+		if (option.key !== "sendModel") {
+			settings[option.key] = values[option.key];
+		}
+	}
+	if (!values.sendModel) {
+		settings.modelEncoding = "none";
+	} else if (config.modelEncoding === "none") {
+		settings.modelEncoding = "plugin";
+	}
+
+	// Keep only what changed
+	for (const key of Object.keys(settings) as (keyof WakaTimeConfig)[]) {
+		if (settings[key] === config[key]) {
+			delete settings[key];
+		}
+	}
+
+	const summary = [
+		`Server: ${serverUrl}`,
+		`API key: ${maskApiKey(apiKey)} in ${
+			!storage ? "~/.wakatime.cfg" : "keyring" in storage ? KEYRINGS[storage.keyring].label : storage.vaultCmd
+		}`,
+		...Object.entries(settings).map(([key, value]) => `${key}: ${JSON.stringify(value)}`),
+	];
+	if (!(await ui.confirm("Save WakaTime settings?", summary.join("\n")))) {
+		return undefined;
+	}
+
+	return { apiKey, apiUrl, storage, settings };
+}
@@ -0,0 +1,91 @@
+/**
+ * Minimal zip reader.
+ *
+ * Reads entries from the central directory and inflates them in-process, so
+ * installing wakatime-cli doesn't depend on a system `unzip` (or PowerShell
+ * on Windows). Supports stored and deflated entries, which is all release
+ * archives use; zip64 and encryption are not supported.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+	name: string;
+	read(): Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of up to 64 KiB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Find the end of central directory record, searching backwards past any comment
+function findEndRecord(zip: Buffer): number {
+	const stop = Math.max(0, zip.length - MAX_END_RECORD_SEARCH);
+	for (let offset = zip.length - 22; offset >= stop; offset--) {
+		if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+			return offset;
+		}
+	}
+	throw new Error("Not a zip file (no end of central directory)");
+}
+
+// List the file entries of a zip archive
+export function readZipEntries(zip: Buffer): ZipEntry[] {
+	const end = findEndRecord(zip);
+	const count = zip.readUInt16LE(end + 10);
+	let offset = zip.readUInt32LE(end + 16);
+
+	const entries: ZipEntry[] = [];
+	for (let i = 0; i < count; i++) {
+		if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+			throw new Error("Corrupt zip central directory");
+		}
+		const flags = zip.readUInt16LE(offset + 8);
+		const method = zip.readUInt16LE(offset + 10);
+		const compressedSize = zip.readUInt32LE(offset + 20);
+		const size = zip.readUInt32LE(offset + 24);
+		const nameLength = zip.readUInt16LE(offset + 28);
+		const extraLength = zip.readUInt16LE(offset + 30);
+		const commentLength = zip.readUInt16LE(offset + 32);
+		const localOffset = zip.readUInt32LE(offset + 42);
+		const name = zip.toString("utf-8", offset + 46, offset + 46 + nameLength);
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		// Directories
+		if (name.endsWith("/")) {
+			continue;
+		}
+
+		entries.push({
+			name,
+			read() {
+				if (flags & 0x1) {
+					throw new Error(`${name} is encrypted`);
+				}
+				if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+					throw new Error(`Corrupt zip entry ${name}`);
+				}
+				// The local header's name and extra field lengths may differ from the central directory's
+				const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+				const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+				let content: Buffer;
+				if (method === 0) {
+					content = Buffer.from(data);
+				} else if (method === 8) {
+					content = inflateRawSync(data);
+				} else {
+					throw new Error(`Unsupported compression method ${method} for ${name}`);
+				}
+				if (content.length !== size) {
+					throw new Error(`Size mismatch extracting ${name}`);
+				}
+				return content;
+			},
+		});
+	}
+	return entries;
+}